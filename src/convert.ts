@@ -0,0 +1,56 @@
+// Load environment variables before the modules that read them
+import './utils/env.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getCacheDir } from './utils/cache.js';
+import { LEGACY_CACHE_FILENAME, MANIFEST_FILENAME, StoredCache, VectorQuantization, writeVectorStore } from './utils/vectorStore.js';
+import { LEGACY_EMBEDDING_INFO } from './utils/search.js';
+
+function main() {
+  const args = process.argv.slice(2);
+  const quantization: VectorQuantization = args.includes('--int8') ? 'int8' : 'float32';
+  const removeLegacy = args.includes('--remove-legacy');
+  const sourceArg = args.find(arg => !arg.startsWith('--'));
+  
+  const cacheDir = getCacheDir();
+  const sourcePath = sourceArg ? path.resolve(sourceArg) : path.join(cacheDir, LEGACY_CACHE_FILENAME);
+  
+  console.log('=== Converting embeddings.json to binary vector store ===\n');
+  
+  let legacy: StoredCache | null = null;
+  try {
+    legacy = JSON.parse(fs.readFileSync(sourcePath, 'utf8')) as StoredCache;
+  } catch {
+    // Reported below
+  }
+  if (!legacy || !Array.isArray(legacy.chunks)) {
+    console.error(`❌ No valid ${LEGACY_CACHE_FILENAME} found at ${sourcePath}`);
+    process.exit(1);
+  }
+  
+  console.log(`Read ${legacy.chunks.length} chunks from ${sourcePath}`);
+  
+  // Keep the original timestamp so getCacheInfo still reports when the index was built
+  const manifest = writeVectorStore(cacheDir, legacy.chunks, {
+    embedding: legacy.embedding || {
+      ...LEGACY_EMBEDDING_INFO,
+      dimensions: legacy.chunks[0]?.embedding.length,
+    },
+    quantization,
+    timestamp: legacy.timestamp,
+  });
+  
+  const before = fs.statSync(sourcePath).size;
+  const after = [MANIFEST_FILENAME, manifest.chunksFile, manifest.vectorsFile]
+    .reduce((sum, file) => sum + fs.statSync(path.join(cacheDir, file)).size, 0);
+  
+  console.log(`✓ Wrote ${manifest.totalChunks} chunks x ${manifest.dimensions} dims (${quantization}) to ${cacheDir}`);
+  console.log(`✓ Size: ${(before / (1024 * 1024)).toFixed(2)} MB -> ${(after / (1024 * 1024)).toFixed(2)} MB`);
+  
+  if (removeLegacy) {
+    fs.unlinkSync(sourcePath);
+    console.log(`✓ Removed ${sourcePath}`);
+  }
+}
+
+main();
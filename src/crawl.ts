@@ -0,0 +1,29 @@
+// Load environment variables before the modules that read them
+import './utils/env.js';
+import * as path from 'path';
+import { crawlSite, CRAWL_MANIFEST_FILENAME, getCrawlOptions, logCrawlChanges, writePagesManifest } from './utils/crawler.js';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const outputArg = args.find(arg => !arg.startsWith('--'));
+  const outputPath = path.resolve(outputArg || CRAWL_MANIFEST_FILENAME);
+  
+  console.log('=== Crawling GMAT Documentation ===\n');
+  
+  const result = await crawlSite(getCrawlOptions());
+  if (result.pages.length === 0) {
+    console.error('❌ The crawl found no pages; check BASE_URL (or DOCS_SOURCE) and CRAWL_SEEDS');
+    process.exit(1);
+  }
+  
+  logCrawlChanges(result);
+  writePagesManifest(outputPath, result.pages);
+  console.log(`\n✓ Wrote ${result.pages.length} pages to ${outputPath}`);
+  console.log('Review it against pages.json, then index it with PAGES_FILE or run setup with --crawl');
+}
+
+main().catch(error => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error('\n❌ Crawl failed:', errorMessage);
+  process.exit(1);
+});
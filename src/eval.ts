@@ -0,0 +1,198 @@
+// Load environment variables before the modules that read them
+import './utils/env.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getCacheRoot } from './utils/cache.js';
+import { SearchEngine, SearchMode } from './utils/search.js';
+import { describeEmbeddingProvider } from './utils/embeddingProvider.js';
+import { createReranker, describeReranker } from './utils/reranker.js';
+import {
+  createEvalEmbeddingProvider,
+  evaluate,
+  EvalMetrics,
+  EvalOptions,
+  EvalReport,
+  GoldenQuery,
+  loadGoldenFile,
+  QueryEvaluation,
+  summarize,
+} from './utils/evaluation.js';
+
+const OPTIONS_WITH_VALUES = ['--cache', '--compare', '--k', '--mode', '--version', '--candidates', '--json', '--max-drop'];
+const METRICS: Array<keyof EvalMetrics> = ['recall', 'mrr', 'ndcg'];
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith('--')) {
+    throw new Error(`${name} needs a value`);
+  }
+  return value;
+}
+
+function parseNumber(args: string[], name: string, fallback: number): number {
+  const value = getOption(args, name);
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new Error(`Invalid ${name} "${value}"`);
+  }
+  return number;
+}
+
+function getMetricLabels(k: number): Record<keyof EvalMetrics, string> {
+  return { recall: `Recall@${k}`, mrr: 'MRR', ndcg: `nDCG@${k}` };
+}
+
+function getQueryMetrics(evaluation: QueryEvaluation): EvalMetrics {
+  return { recall: evaluation.recall, mrr: evaluation.reciprocalRank, ndcg: evaluation.ndcg };
+}
+
+function formatDelta(delta: number): string {
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(3)}`;
+}
+
+function formatRow(id: string, cells: string[], idWidth: number, cellWidth: number): string {
+  return id.padEnd(idWidth) + cells.map(cell => cell.padEnd(cellWidth)).join('').trimEnd();
+}
+
+/**
+ * One row per query and a mean row. With a second report, each cell shows
+ * both values and the change, and queries that got worse are marked.
+ */
+function printTable(reports: EvalReport[], k: number): void {
+  const labels = getMetricLabels(k);
+  // Room for the "! " mark of queries that got worse
+  const idWidth = Math.max(6, ...reports[0].queries.map(query => query.id.length)) + (reports.length > 1 ? 4 : 2);
+  const cellWidth = reports.length > 1 ? 24 : 12;
+  const cell = (values: number[]) => values.length > 1
+    ? `${values[0].toFixed(3)} → ${values[1].toFixed(3)}${values[1] !== values[0] ? ` (${formatDelta(values[1] - values[0])})` : ''}`
+    : values[0].toFixed(3);
+
+  console.log(formatRow('Query', METRICS.map(metric => labels[metric]), idWidth, cellWidth));
+  reports[0].queries.forEach((evaluation, i) => {
+    const metrics = reports.map(report => getQueryMetrics(report.queries[i]));
+    const worse = metrics.length > 1 && METRICS.some(metric => metrics[1][metric] < metrics[0][metric]);
+    console.log(formatRow((worse ? '! ' : '') + evaluation.id, METRICS.map(metric => cell(metrics.map(m => m[metric]))), idWidth, cellWidth));
+  });
+  console.log(formatRow('Mean', METRICS.map(metric => cell(reports.map(report => report.mean[metric]))), idWidth, cellWidth));
+}
+
+function printMisses(report: EvalReport, label: string): void {
+  const missed = report.queries.filter(evaluation => evaluation.found.some(item => item.rank === null));
+  if (missed.length === 0) return;
+  console.log(`\nExpected targets not in the top ${report.k}${label}:`);
+  for (const evaluation of missed) {
+    const targets = evaluation.found.filter(item => item.rank === null).map(item => item.target);
+    console.log(`  ${evaluation.id}: ${targets.join(', ')}`);
+  }
+}
+
+async function runReport(
+  cacheDir: string,
+  queries: GoldenQuery[],
+  options: EvalOptions & { offline: boolean; exact: boolean }
+): Promise<EvalReport> {
+  const searchEngine = new SearchEngine(cacheDir, options.version, { exact: options.exact });
+  await searchEngine.loadCache();
+  const indexed = searchEngine.getStats().indexedVersions;
+  const embeddingProvider = createEvalEmbeddingProvider(searchEngine.getEmbeddingInfo(), cacheDir, options.offline);
+  searchEngine.assertCompatibleProvider(embeddingProvider.info);
+
+  const evaluations = await evaluate(searchEngine, embeddingProvider, queries, options);
+  return {
+    cacheDir,
+    embedding: describeEmbeddingProvider(embeddingProvider.info),
+    mode: options.mode,
+    k: options.k,
+    vectorSearch: indexed.length > 0 ? 'hnsw' : 'exact',
+    ...(options.reranker ? { reranker: describeReranker(options.reranker.info) } : {}),
+    queries: evaluations,
+    mean: summarize(evaluations),
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const goldenArg = args.find((arg, i) => !arg.startsWith('--') && !OPTIONS_WITH_VALUES.includes(args[i - 1]));
+  if (!goldenArg) {
+    console.error('Usage: pnpm run eval -- <golden.json> [--cache <dir>] [--compare <dir>] [--k 10] ' +
+      '[--compare-exact] [--exact] [--mode hybrid|semantic|lexical] [--version <name>] [--rerank] [--candidates 50] [--offline] [--json <file>] [--max-drop <x>]');
+    process.exit(1);
+  }
+
+  const k = parseNumber(args, '--k', 10);
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error(`Invalid --k "${k}"`);
+  }
+  const mode = getOption(args, '--mode') || 'hybrid';
+  if (mode !== 'semantic' && mode !== 'lexical' && mode !== 'hybrid') {
+    throw new Error(`Unknown --mode "${mode}". Use semantic, lexical or hybrid.`);
+  }
+  const maxDrop = getOption(args, '--max-drop') !== undefined ? parseNumber(args, '--max-drop', 0) : undefined;
+
+  const goldenPath = path.resolve(goldenArg);
+  const queries = loadGoldenFile(goldenPath);
+  const cacheDirs = [path.resolve(getOption(args, '--cache') || getCacheRoot())];
+  const compareDir = getOption(args, '--compare');
+  // Exact search (A) against the cache's own HNSW index (B), to measure what the index loses
+  const compareExact = args.includes('--compare-exact');
+  if (compareDir && compareExact) {
+    throw new Error('Use either --compare or --compare-exact');
+  }
+  if (compareDir || compareExact) {
+    cacheDirs.push(compareDir ? path.resolve(compareDir) : cacheDirs[0]);
+  }
+
+  console.log('=== Retrieval Evaluation ===\n');
+  console.log(`Golden file: ${goldenPath} (${queries.length} queries)`);
+
+  const options = {
+    k,
+    mode: mode as SearchMode,
+    version: getOption(args, '--version'),
+    reranker: args.includes('--rerank') ? createReranker() : undefined,
+    candidates: parseNumber(args, '--candidates', 50),
+    offline: args.includes('--offline'),
+  };
+  const reports: EvalReport[] = [];
+  for (const [i, cacheDir] of cacheDirs.entries()) {
+    const exact = args.includes('--exact') || (compareExact && i === 0);
+    reports.push(await runReport(cacheDir, queries, { ...options, exact }));
+  }
+
+  const names = reports.length > 1 ? ['A', 'B'] : [''];
+  console.log(`Mode: ${mode}, k = ${k}${reports[0].reranker ? `, reranked by ${reports[0].reranker}` : ''}`);
+  reports.forEach((report, i) => {
+    console.log(`${names[i] ? `${names[i]}: ` : 'Cache: '}${report.cacheDir} (${report.embedding}, ${report.vectorSearch} vector search)`);
+  });
+  console.log('');
+
+  printTable(reports, k);
+  reports.forEach((report, i) => printMisses(report, names[i] ? ` in ${names[i]}` : ''));
+
+  const jsonPath = getOption(args, '--json');
+  if (jsonPath) {
+    fs.writeFileSync(path.resolve(jsonPath), JSON.stringify(reports.length > 1 ? reports : reports[0], null, 2) + '\n');
+    console.log(`\n✓ Wrote the per-query results to ${path.resolve(jsonPath)}`);
+  }
+
+  // Gate: the compared build may not lose more than --max-drop on any mean metric
+  if (reports.length > 1 && maxDrop !== undefined) {
+    const labels = getMetricLabels(k);
+    const drops = METRICS.filter(metric => reports[0].mean[metric] - reports[1].mean[metric] > maxDrop);
+    if (drops.length > 0) {
+      console.error(`\n❌ B is worse than A by more than ${maxDrop}: ` +
+        drops.map(metric => `${labels[metric]} ${formatDelta(reports[1].mean[metric] - reports[0].mean[metric])}`).join(', '));
+      process.exit(1);
+    }
+    console.log(`\n✓ No mean metric dropped by more than ${maxDrop}`);
+  }
+}
+
+main().catch(error => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error('\n❌ Evaluation failed:', errorMessage);
+  process.exit(1);
+});
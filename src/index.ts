@@ -2,167 +2,206 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import OpenAI from 'openai';
 import * as path from 'path';
 import { SearchEngine } from './utils/search.js';
-
-// Initialize dependencies
-const apiKey = process.env.OPENAI_API_KEY;
-if (!apiKey) {
-  throw new Error('OPENAI_API_KEY environment variable is required');
+import { getCollectionDir } from './utils/cache.js';
+import { createEmbeddingProvider, describeEmbeddingProvider } from './utils/embeddingProvider.js';
+import { CachedEmbeddingProvider, getQueryCacheConfig } from './utils/queryCache.js';
+import { createReranker, describeReranker, HeuristicReranker, Reranker } from './utils/reranker.js';
+import { ReferenceStore } from './utils/reference.js';
+import { ExampleStore } from './utils/examples.js';
+import { GMAT_DOCS_TOOLS } from './tools/gmatDocs.js';
+import {
+  GMAT_DOCS_RESOURCE_TEMPLATES,
+  listGmatDocsResources,
+  readGmatDocsResource,
+} from './resources/gmatDocs.js';
+import { getHttpTransportOptions, startHttpServer } from './transports/http.js';
+
+type TransportType = 'stdio' | 'http';
+
+// --transport <stdio|http> (or --transport=http) overrides MCP_TRANSPORT
+function getTransportType(): TransportType {
+  const args = process.argv.slice(2);
+  const flagIndex = args.findIndex(arg => arg === '--transport' || arg.startsWith('--transport='));
+  const value = flagIndex === -1
+    ? process.env.MCP_TRANSPORT || 'stdio'
+    : args[flagIndex].split('=')[1] ?? args[flagIndex + 1];
+
+  if (value !== 'stdio' && value !== 'http') {
+    throw new Error(`Unknown transport "${value}". Use "stdio" or "http".`);
+  }
+  return value;
 }
 
-const openaiClient = new OpenAI({ apiKey });
+// Initialize dependencies
 const cacheDir = process.env.CACHE_DIR || path.join(process.cwd(), 'data');
-const searchEngine = new SearchEngine(cacheDir);
-
-// Create MCP server with proper initialization
-const server = new Server(
-  {
-    name: "gmat-docs-mcp-server",
-    version: "1.0.0"
-  },
-  {
-    capabilities: {
-      tools: {}
-    }
-  }
-);
-
-// Handle list tools request
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "searchDocs",
-        description: "Semantic search over GMAT documentation. Returns relevant sections with full content and sources.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: {
-              type: "string",
-              description: "The search query - can be a question, topic, or keyword related to GMAT"
-            },
-            topK: {
-              type: "number",
-              description: "Maximum number of results to return (default: 10)",
-              minimum: 1,
-              maximum: 50,
-              default: 10
-            },
-            minScore: {
-              type: "number",
-              description: "Minimum similarity score threshold (0-1, default: 0.1)",
-              minimum: 0,
-              maximum: 1,
-              default: 0.1
-            }
-          },
-          required: ["query"]
-        }
+let embeddingProvider: CachedEmbeddingProvider | null = null;
+try {
+  // Agents retry and rephrase constantly, so query embeddings are cached
+  embeddingProvider = new CachedEmbeddingProvider(createEmbeddingProvider(), getQueryCacheConfig(cacheDir));
+} catch (error) {
+  // Lexical search still works without embeddings, so don't refuse to start
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`Embedding provider unavailable, only lexical search will work: ${errorMessage}`);
+}
+// Used by searchDocs calls that ask for rerank
+let reranker: Reranker;
+try {
+  reranker = createReranker();
+} catch (error) {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`Reranker unavailable, falling back to the heuristic reranker: ${errorMessage}`);
+  reranker = new HeuristicReranker();
+}
+// Version searched when a tool call names none
+const searchEngine = new SearchEngine(cacheDir, process.env.DOCS_VERSION);
+// Field reference and script examples per documentation version
+const referenceStores = new Map<string, ReferenceStore>();
+const exampleStores = new Map<string, ExampleStore>();
+
+/**
+ * Creates an MCP server over the shared search engine and reference data.
+ * Stdio uses one; the HTTP transport creates one per client session.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "gmat-docs-mcp-server",
+      version: "1.0.0"
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {}
       }
-    ]
-  };
-});
-
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  if (request.params.name !== "searchDocs") {
-    throw new Error(`Unknown tool: ${request.params.name}`);
-  }
-
-  const { query, topK = 10, minScore = 0.1 } = request.params.arguments as any;
-
-  try {
-    // Generate embedding for the query
-    const embeddingResponse = await openaiClient.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: query,
-      encoding_format: 'float'
-    });
-    
-    const queryEmbedding = embeddingResponse.data[0].embedding;
-
-    // Perform search
-    const results = await searchEngine.search(queryEmbedding, topK, minScore);
-
-    if (results.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `No relevant documentation found for query: "${query}"`
-          }
-        ]
-      };
     }
+  );
 
-    // Format results
-    let response = `Found ${results.length} relevant section${results.length > 1 ? 's' : ''} for: "${query}"\n\n`;
-    
-    for (let i = 0; i < results.length; i++) {
-      const result = results[i];
-      const { chunk, score } = result;
-      
-      response += `## Result ${i + 1} (Score: ${score.toFixed(3)})\n`;
-      response += `**Page**: ${chunk.pageName}\n`;
-      response += `**Source**: ${chunk.href}\n`;
-      response += `**Content**:\n${chunk.fullContent}\n\n`;
-      response += '---\n\n';
-    }
+  // Handle list tools request
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: GMAT_DOCS_TOOLS.list()
+    };
+  });
+
+  // Handle tool execution; arguments are validated against the tool's schema
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    return GMAT_DOCS_TOOLS.call(
+      request.params.name,
+      request.params.arguments,
+      { searchEngine, embeddingProvider, reranker, referenceStores, exampleStores }
+    );
+  });
+
+  // Handle list resources request
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: listGmatDocsResources({ searchEngine, embeddingProvider })
+    };
+  });
 
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
     return {
-      content: [
-        {
-          type: "text",
-          text: response.trim()
-        }
-      ]
+      resourceTemplates: GMAT_DOCS_RESOURCE_TEMPLATES
     };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  });
+
+  // Handle resource reads
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const contents = await readGmatDocsResource(request.params.uri, { searchEngine, embeddingProvider });
     return {
-      content: [
-        {
-          type: "text",
-          text: `Error searching documentation: ${errorMessage}`
-        }
-      ]
+      contents: [contents]
     };
-  }
-});
+  });
+
+  return server;
+}
 
 // Start server
 async function main() {
   try {
+    const transport = getTransportType();
+
     // Load cache first
     console.error('Loading GMAT documentation cache...');
     await searchEngine.loadCache();
     const stats = searchEngine.getStats();
     console.error(`Cache loaded: ${stats.totalChunks} chunks available`);
+    if (stats.versions.length > 1) {
+      console.error(`Documentation versions: ${stats.versions.join(', ')} (default: ${stats.defaultVersion})`);
+    }
+    if (stats.indexedVersions.length > 0) {
+      console.error(`HNSW vector index: ${stats.indexedVersions.join(', ')}`);
+    }
+    for (const version of stats.versions) {
+      const collectionDir = getCollectionDir(cacheDir, version);
+      const referenceStore = ReferenceStore.load(collectionDir);
+      const exampleStore = ExampleStore.load(collectionDir);
+      referenceStores.set(version, referenceStore);
+      exampleStores.set(version, exampleStore);
+      const label = stats.versions.length > 1 ? ` for ${version}` : '';
+      console.error(`Field reference loaded${label}: ${referenceStore.size} resources/commands`);
+      console.error(`Script examples loaded${label}: ${exampleStore.size}`);
+    }
+    if (embeddingProvider) {
+      searchEngine.assertCompatibleProvider(embeddingProvider.info);
+      console.error(`Using embedding provider: ${describeEmbeddingProvider(embeddingProvider.info)}`);
+      const queryCache = embeddingProvider.getStats();
+      if (queryCache.maxEntries > 0) {
+        console.error(`Query embedding cache: ${queryCache.size}/${queryCache.maxEntries} entries` +
+          (queryCache.persistent ? ' (persistent)' : ''));
+      }
+    }
+    console.error(`Reranker: ${describeReranker(reranker.info)}`);
 
-    // Create and connect transport
-    const transport = new StdioServerTransport();
     console.error('Starting GMAT Docs MCP Server...');
-    
-    await server.connect(transport);
-    console.error('GMAT Docs MCP Server is running');
+    if (transport === 'http') {
+      const options = getHttpTransportOptions();
+      await startHttpServer(createServer, {
+        ...options,
+        getHealth: () => ({
+          ...searchEngine.getStats(),
+          // Of the default version
+          referenceEntries: referenceStores.get(searchEngine.getDefaultVersion())?.size ?? 0,
+          examples: exampleStores.get(searchEngine.getDefaultVersion())?.size ?? 0,
+          queryCache: embeddingProvider?.getStats() ?? null,
+        }),
+      });
+      console.error(`GMAT Docs MCP Server is listening on http://${options.host}:${options.port}/mcp` +
+        ` (legacy SSE: /sse, health: /health${options.authToken ? ', bearer auth required' : ''})`);
+    } else {
+      await createServer().connect(new StdioServerTransport());
+      console.error('GMAT Docs MCP Server is running');
+    }
   } catch (error) {
     console.error('Failed to start GMAT Docs MCP Server:', error);
     process.exit(1);
   }
 }
 
+function logQueryCacheStats() {
+  if (embeddingProvider) {
+    const { hits, misses, coalesced } = embeddingProvider.getStats();
+    console.error(`Query embedding cache: ${hits} hits, ${misses} misses, ${coalesced} coalesced`);
+  }
+}
+
 // Handle graceful shutdown
 process.on('SIGINT', () => {
   console.error('Shutting down GMAT Docs MCP Server...');
+  logQueryCacheStats();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
   console.error('Shutting down GMAT Docs MCP Server...');
+  logQueryCacheStats();
   process.exit(0);
 });
 
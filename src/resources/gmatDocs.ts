@@ -0,0 +1,147 @@
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { SearchEngine } from '../utils/search.js';
+import { CachedEmbeddingProvider } from '../utils/queryCache.js';
+import { buildPageMarkdown } from '../utils/documents.js';
+import { findCategory, getPageSections, PAGES } from '../utils/pages.js';
+
+export interface GmatDocsResourcesConfig {
+  searchEngine: SearchEngine;
+  embeddingProvider: CachedEmbeddingProvider | null;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+const URI_SCHEME = 'gmat-docs://';
+const MARKDOWN = 'text/markdown';
+const JSON_MIME_TYPE = 'application/json';
+// Cache and query embedding cache statistics, which stdio clients can't get from /health
+const STATS_URI = `${URI_SCHEME}stats`;
+
+export const GMAT_DOCS_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${URI_SCHEME}page/{href}`,
+    name: 'GMAT documentation page',
+    description: 'A full documentation page as Markdown, e.g. gmat-docs://page/Spacecraft.html',
+    mimeType: MARKDOWN,
+  },
+  {
+    uriTemplate: `${URI_SCHEME}chunk/{id}`,
+    name: 'GMAT documentation chunk',
+    description: 'A single section by the chunk id returned from searchDocs. Encode the "#" in the id as %23, e.g. gmat-docs://chunk/Spacecraft%23Fields',
+    mimeType: MARKDOWN,
+  },
+  {
+    uriTemplate: `${URI_SCHEME}section/{category}`,
+    name: 'GMAT documentation section',
+    description: `Index of the pages in one part of the manual. Categories: ${getPageSections().map(section => section.slug).join(', ')}`,
+    mimeType: MARKDOWN,
+  },
+];
+
+export function pageUri(href: string): string {
+  return `${URI_SCHEME}page/${encodeURIComponent(href)}`;
+}
+
+/**
+ * Lists every page of the manual that is in the cache, in PAGES order, then
+ * pages setup found in a local copy that are not in the page list.
+ */
+export function listGmatDocsResources(config: GmatDocsResourcesConfig): Resource[] {
+  const cached = new Map(config.searchEngine.listPages().map(page => [page.href, page]));
+  const listed = PAGES.filter(page => cached.has(page.href)).map(page => ({ href: page.href, name: page.name }));
+  const unlisted = Array.from(cached.values())
+    .filter(page => !listed.some(listedPage => listedPage.href === page.href))
+    .map(page => ({ href: page.href, name: page.pageName }));
+
+  const pages = [...listed, ...unlisted].map(page => ({
+    uri: pageUri(page.href),
+    name: page.name,
+    description: `GMAT documentation page ${page.href} (${cached.get(page.href)!.chunkCount} sections)`,
+    mimeType: MARKDOWN,
+  }));
+  return [
+    {
+      uri: STATS_URI,
+      name: 'GMAT docs server statistics',
+      description: 'Documentation cache contents and query embedding cache hits and misses',
+      mimeType: JSON_MIME_TYPE,
+    },
+    ...pages,
+  ];
+}
+
+function readPage(href: string, config: GmatDocsResourcesConfig): string {
+  const page = config.searchEngine.getPageChunks(href);
+  if (!page) {
+    throw new Error(`Page not found: ${href}`);
+  }
+  return buildPageMarkdown(page);
+}
+
+function readChunk(id: string, config: GmatDocsResourcesConfig): string {
+  const chunk = config.searchEngine.getChunk(id);
+  if (!chunk) {
+    throw new Error(`Chunk not found: ${id}`);
+  }
+  return `# ${chunk.pageName}\n\n` +
+    `Source: ${chunk.href}\n\n` +
+    chunk.fullContent;
+}
+
+function readSection(category: string, config: GmatDocsResourcesConfig): string {
+  const sections = getPageSections();
+  const name = findCategory(category);
+  const section = sections.find(s => s.category === name);
+  if (!section) {
+    throw new Error(`Unknown section "${category}". Available: ${sections.map(s => s.slug).join(', ')}`);
+  }
+
+  const cached = new Set(config.searchEngine.listPages().map(page => page.href));
+  const lines = section.pages
+    .filter(page => cached.has(page.href))
+    .map(page => `- [${page.name}](${pageUri(page.href)})`);
+  return `# ${section.category}\n\n` +
+    (lines.length > 0 ? lines.join('\n') : 'No pages from this section are in the cache.');
+}
+
+function readStats(config: GmatDocsResourcesConfig): string {
+  return JSON.stringify({
+    ...config.searchEngine.getStats(),
+    queryCache: config.embeddingProvider?.getStats() ?? null,
+  }, null, 2);
+}
+
+export async function readGmatDocsResource(
+  uri: string,
+  config: GmatDocsResourcesConfig
+): Promise<ResourceContents> {
+  if (uri === STATS_URI) {
+    return { uri, mimeType: JSON_MIME_TYPE, text: readStats(config) };
+  }
+
+  // Clients may or may not percent-encode the "#" of chunk ids, so take the raw remainder
+  const match = uri.match(/^gmat-docs:\/\/(page|chunk|section)\/(.+)$/);
+  if (!match) {
+    throw new Error(`Unknown resource URI: ${uri}`);
+  }
+
+  const [, type, rawValue] = match;
+  const value = decodeURIComponent(rawValue);
+  let text: string;
+  switch (type) {
+    case 'page':
+      text = readPage(value, config);
+      break;
+    case 'chunk':
+      text = readChunk(value, config);
+      break;
+    default:
+      text = readSection(value, config);
+  }
+
+  return { uri, mimeType: MARKDOWN, text };
+}
@@ -1,19 +1,81 @@
-import dotenv from 'dotenv';
-import { scrapeAll } from './utils/scraper.js';
-import { parseAndChunk } from './utils/parser.js';
-import { generateEmbeddings } from './utils/embedder.js';
-import { saveCache, loadCache, clearCache, getCacheInfo } from './utils/cache.js';
+// Load environment variables before the modules that read them
+import './utils/env.js';
+import * as path from 'path';
+import { scrapeAll, PageValidators, ScrapedPage } from './utils/scraper.js';
+import { crawlSite, CRAWL_MANIFEST_FILENAME, findUnlistedPages, getCrawlOptions, logCrawlChanges, writePagesManifest } from './utils/crawler.js';
+import { createDocSource, DocSource } from './utils/sources.js';
+import { parseAndChunk, Chunk, PARSER_VERSION } from './utils/parser.js';
+import { generateEmbeddings, EmbeddedChunk } from './utils/embedder.js';
+import { createEmbeddingProvider, describeEmbeddingProvider, EmbeddingProvider, isSameEmbedding } from './utils/embeddingProvider.js';
+import { saveCache, loadCacheData, clearCache, getCacheInfo, getCacheDir, getDocsVersion, setDocsVersion } from './utils/cache.js';
+import { EmbeddingCheckpoint } from './utils/checkpoint.js';
+import { extractReference, loadReference, saveReference, PageReference } from './utils/reference.js';
+import { extractExamples, loadExamples, saveExamples, ScriptExample } from './utils/examples.js';
+import { BASE_URL, PAGES, setPages } from './utils/pages.js';
+import { hashContent } from './utils/hash.js';
+import { PageRecord, StoredCache, Vector, VectorIndexType } from './utils/vectorStore.js';
+import { LEGACY_EMBEDDING_INFO } from './utils/search.js';
 
-// Load environment variables
-dotenv.config({ path: '.env' });
-dotenv.config({ path: '.env.local' });
+function groupByHref<T extends { href: string }>(chunks: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const chunk of chunks) {
+    const group = groups.get(chunk.href) || [];
+    group.push(chunk);
+    groups.set(chunk.href, group);
+  }
+  return groups;
+}
+
+function buildEmbeddingLookup(previous: StoredCache): Map<string, Vector> {
+  const lookup = new Map<string, Vector>();
+  for (const chunk of previous.chunks) {
+    // Legacy caches did not store chunk hashes
+    lookup.set(chunk.contentHash || hashContent(chunk.fullContent), chunk.embedding);
+  }
+  return lookup;
+}
 
 async function main() {
   const args = process.argv.slice(2);
   const forceRefresh = args.includes('--force');
+  const quantization = args.includes('--int8') ? 'int8' : undefined;
+  const resume = args.includes('--resume');
+  const crawl = args.includes('--crawl');
+  // A directory, archive or file:// URL to read the pages from instead of BASE_URL
+  const sourceIndex = args.indexOf('--source');
+  const sourceLocation = sourceIndex >= 0 ? args[sourceIndex + 1] : undefined;
+  // Builds the named collection of a docs release instead of the default one
+  const versionIndex = args.indexOf('--version');
+  // --index hnsw adds an approximate nearest-neighbour index, --index none drops it
+  const indexFlag = args.indexOf('--index');
+  let vectorIndex: VectorIndexType | undefined;
   
   console.log('=== GMAT Documentation MCP Server Setup ===\n');
   
+  try {
+    if (indexFlag >= 0) {
+      const value = args[indexFlag + 1];
+      if (value !== 'hnsw' && value !== 'none') {
+        throw new Error('--index needs "hnsw" or "none"');
+      }
+      vectorIndex = value;
+    }
+    if (versionIndex >= 0) {
+      if (!args[versionIndex + 1]) {
+        throw new Error('--version needs a name, e.g. --version R2022a');
+      }
+      setDocsVersion(args[versionIndex + 1]);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Error: ${errorMessage}`);
+    process.exit(1);
+  }
+  const docsVersion = getDocsVersion();
+  if (docsVersion) {
+    console.log(`Docs version: ${docsVersion}`);
+  }
+  
   // Check cache status
   const cacheInfo = getCacheInfo();
   console.log(`Cache status: ${cacheInfo.exists ? 'EXISTS' : 'NOT FOUND'}`);
@@ -21,21 +83,7 @@ async function main() {
     console.log(`Cache location: ${cacheInfo.path}`);
     if (cacheInfo.size) console.log(`Cache size: ${cacheInfo.size}`);
     if (cacheInfo.timestamp) console.log(`Cache timestamp: ${cacheInfo.timestamp}`);
-  }
-  
-  // Check if we should skip setup
-  if (cacheInfo.exists && !forceRefresh) {
-    console.log('\nCache already exists. Use --force to regenerate.');
-    
-    // Verify cache can be loaded
-    const existingChunks = loadCache();
-    if (existingChunks) {
-      console.log(`✓ Cache is valid with ${existingChunks.length} chunks`);
-      console.log('Setup complete - server can start using existing cache.');
-      return;
-    } else {
-      console.log('⚠ Cache file exists but is invalid, proceeding with regeneration...');
-    }
+    if (cacheInfo.format) console.log(`Cache format: ${cacheInfo.format}`);
   }
   
   if (forceRefresh && cacheInfo.exists) {
@@ -44,21 +92,112 @@ async function main() {
   }
   
   // Validate environment
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    console.error('❌ Error: OPENAI_API_KEY environment variable is required');
-    console.error('Please set your OpenAI API key in the .env file');
+  let embeddingProvider: EmbeddingProvider;
+  try {
+    embeddingProvider = createEmbeddingProvider();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Error: ${errorMessage}`);
+    console.error('Set EMBEDDING_PROVIDER (openai, openai-compatible, local) and its variables in the .env file');
+    process.exit(1);
+  }
+  
+  let source: DocSource;
+  try {
+    source = createDocSource(sourceLocation);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Error: ${errorMessage}`);
+    console.error('Pass --source (or set DOCS_SOURCE) to a directory of HTML files, a .zip/.tar.gz of them, or a file:// URL');
     process.exit(1);
   }
   
   console.log('✓ Environment variables validated');
+  console.log(`✓ Embedding provider: ${describeEmbeddingProvider(embeddingProvider.info)}`);
+  console.log(`✓ Documentation source: ${source.description}`);
+  
+  // Load the previous index so only new or changed pages are re-embedded
+  let previous: StoredCache | null = null;
+  if (cacheInfo.exists && !forceRefresh) {
+    previous = loadCacheData();
+    if (previous) {
+      console.log(`\nExisting cache found with ${previous.chunks.length} chunks, updating incrementally (use --force to rebuild)`);
+    } else {
+      console.log('⚠ Cache file exists but is invalid, proceeding with full regeneration...');
+    }
+  }
+  
+  // Vectors of another provider, model or size cannot share the store
+  if (previous) {
+    const previousEmbedding = previous.embedding || LEGACY_EMBEDDING_INFO;
+    const previousInfo = { ...previousEmbedding, dimensions: previousEmbedding.dimensions ?? previous.chunks[0]?.embedding.length };
+    if (!isSameEmbedding(previousInfo, embeddingProvider.info)) {
+      console.log(`⚠ Cache was embedded with ${describeEmbeddingProvider(previousInfo)}, ` +
+        `re-embedding everything with ${describeEmbeddingProvider(embeddingProvider.info)}`);
+      previous = null;
+    }
+  }
+  
+  // Pages can only be skipped wholesale if they were chunked by the current parser
+  const sameParser = previous?.parserVersion === PARSER_VERSION;
+  const previousPages: Record<string, PageRecord> = (sameParser && previous?.pages) || {};
+  const previousChunksByHref = sameParser && previous ? groupByHref(previous.chunks) : new Map<string, EmbeddedChunk[]>();
+  if (previous && !sameParser) {
+    console.log('Parser has changed since the last run, re-chunking all pages (unchanged text keeps its embeddings)');
+  }
+  const previousReference = (sameParser && loadReference(getCacheDir())?.pages) || {};
+  const previousExamples = (sameParser && loadExamples(getCacheDir())?.pages) || {};
+  
+  // Embedding progress from an interrupted run
+  const checkpoint = new EmbeddingCheckpoint(getCacheDir());
+  const checkpointState = resume ? checkpoint.load(embeddingProvider.info) : null;
+  if (resume) {
+    if (checkpointState) {
+      console.log(`✓ Resuming embedding run started ${checkpointState.startedAt}: ` +
+        `${checkpointState.doneIds.size} chunks in ${checkpointState.batches} batches already done`);
+    } else {
+      console.log('⚠ --resume given but no usable checkpoint was found, starting a new embedding run');
+    }
+  } else if (checkpoint.exists()) {
+    console.log(`⚠ Found an unfinished embedding run at ${checkpoint.path}; it will be replaced (use --resume to continue it)`);
+  }
   
   try {
     // Step 1: Scraping
-    console.log('\n--- Step 1: Scraping Pages ---');
-    const scrapedPages = await scrapeAll();
+    let scrapedPages: ScrapedPage[];
+    if (crawl) {
+      // The crawl needs every page body for its links, so no conditional requests
+      console.log('\n--- Step 1: Crawling Pages ---');
+      const result = await crawlSite(getCrawlOptions(), source);
+      logCrawlChanges(result);
+      if (result.pages.length > 0) {
+        const manifestPath = path.resolve(CRAWL_MANIFEST_FILENAME);
+        writePagesManifest(manifestPath, result.pages);
+        console.log(`✓ Wrote the crawled page list to ${manifestPath}; start the server with PAGES_FILE=${CRAWL_MANIFEST_FILENAME}`);
+        setPages(result.pages);
+      }
+      scrapedPages = result.scraped;
+    } else {
+      console.log('\n--- Step 1: Scraping Pages ---');
+      // Pages of a local copy that pages.json does not list are indexed too
+      const unlisted = await findUnlistedPages(source);
+      if (unlisted.length > 0) {
+        console.log(`✓ Found ${unlisted.length} pages in ${source.description} that are not in the page list:`);
+        for (const page of unlisted) {
+          console.log(`  + ${page.href} (${page.name})`);
+        }
+        setPages([...PAGES, ...unlisted]);
+      }
+      const validators: Record<string, PageValidators> = {};
+      for (const [href, record] of Object.entries(previousPages)) {
+        if (previousChunksByHref.has(href)) {
+          validators[href] = { etag: record.etag, lastModified: record.lastModified };
+        }
+      }
+      scrapedPages = await scrapeAll(source, validators);
+    }
     
-    if (scrapedPages.length === 0) {
+    if (scrapedPages.length === 0 && previousChunksByHref.size === 0) {
       console.error('❌ No pages were successfully scraped');
       process.exit(1);
     }
@@ -67,34 +206,156 @@ async function main() {
     
     // Step 2: Parsing and Chunking
     console.log('\n--- Step 2: Parsing and Chunking ---');
-    let allChunks = [];
+    const now = new Date().toISOString();
+    const pageRecords: Record<string, PageRecord> = {};
+    const keptChunks = new Map<string, EmbeddedChunk[]>();
+    const referencePages: Record<string, PageReference[]> = {};
+    const examplePages: Record<string, ScriptExample[]> = {};
+    const changedChunks: Chunk[] = [];
+    const added: string[] = [];
+    const changed: string[] = [];
+    const scrapedHrefs = new Set(scrapedPages.map(page => page.href));
+    const previousHrefs = new Set(previous ? previous.chunks.map(chunk => chunk.href) : []);
     
     for (const page of scrapedPages) {
+      const record = previousPages[page.href];
+      const oldChunks = previousChunksByHref.get(page.href);
+      const contentHash = page.notModified ? record?.contentHash : hashContent(page.html);
+      
+      if (oldChunks && record && contentHash === record.contentHash) {
+        keptChunks.set(page.href, oldChunks);
+        referencePages[page.href] = previousReference[page.href] || [];
+        examplePages[page.href] = previousExamples[page.href] || [];
+        pageRecords[page.href] = {
+          ...record,
+          etag: page.etag || record.etag,
+          lastModified: page.lastModified || record.lastModified,
+        };
+        continue;
+      }
+      
+      if (page.notModified) {
+        // 304 without a usable previous record should not happen; skip rather than index an empty page
+        console.warn(`⚠ ${page.href} reported not modified but has no cached chunks, skipping`);
+        continue;
+      }
+      
       const chunks = parseAndChunk(page.html, page.href);
-      allChunks.push(...chunks);
-      console.log(`Processed ${page.href}: ${chunks.length} chunks`);
+      changedChunks.push(...chunks);
+      referencePages[page.href] = extractReference(page.html, page.href);
+      examplePages[page.href] = extractExamples(chunks);
+      (previousHrefs.has(page.href) ? changed : added).push(page.href);
+      pageRecords[page.href] = {
+        contentHash: contentHash!,
+        etag: page.etag,
+        lastModified: page.lastModified,
+        indexedAt: now,
+      };
+      const fieldCount = referencePages[page.href].reduce((sum, reference) => sum + reference.fields.length, 0);
+      const exampleCount = examplePages[page.href].length;
+      console.log(`Processed ${page.href}: ${chunks.length} chunks` +
+        (fieldCount > 0 ? `, ${fieldCount} reference fields` : '') +
+        (exampleCount > 0 ? `, ${exampleCount} script examples` : ''));
     }
     
-    console.log(`✓ Total chunks created: ${allChunks.length}`);
+    // Keep the previous chunks of pages that failed to scrape this time
+    for (const page of PAGES) {
+      const oldChunks = previousChunksByHref.get(page.href);
+      if (!scrapedHrefs.has(page.href) && oldChunks) {
+        console.warn(`⚠ Keeping previously indexed content for ${page.href} (scrape failed)`);
+        keptChunks.set(page.href, oldChunks);
+        referencePages[page.href] = previousReference[page.href] || [];
+        examplePages[page.href] = previousExamples[page.href] || [];
+        if (previousPages[page.href]) {
+          pageRecords[page.href] = previousPages[page.href];
+        }
+      }
+    }
     
-    if (allChunks.length === 0) {
-      console.error('❌ No chunks were created from the scraped pages');
-      process.exit(1);
+    // Pages that are no longer listed in pages.json are dropped from the index
+    const currentHrefs = new Set(PAGES.map(page => page.href));
+    const removed = Array.from(previousHrefs).filter(href => !currentHrefs.has(href));
+    
+    console.log(`✓ Pages: ${added.length} new, ${changed.length} changed, ${keptChunks.size} unchanged, ${removed.length} removed`);
+    for (const href of removed) {
+      console.log(`  - removed ${href}`);
+    }
+    console.log(`✓ Chunks to embed: ${changedChunks.length}`);
+    
+    // Names, categories and tags edited in pages.json still need the cache rewritten
+    const metadataChanged = PAGES.some(page => (keptChunks.get(page.href) || []).some(chunk =>
+      chunk.pageName !== page.name ||
+      chunk.category !== page.category ||
+      JSON.stringify(chunk.tags) !== JSON.stringify(page.tags)
+    ));
+    const upToDate = previous && !quantization && !vectorIndex && changedChunks.length === 0 && removed.length === 0 &&
+      keptChunks.size === previousChunksByHref.size && !metadataChanged;
+    if (upToDate) {
+      console.log('\n=== Index is up to date ===');
+      console.log('No new, changed or removed pages - nothing to re-embed.');
+      return;
     }
     
     // Step 3: Generate Embeddings
     console.log('\n--- Step 3: Generating Embeddings ---');
-    const embeddedChunks = await generateEmbeddings(allChunks, apiKey);
+    let embeddedChunks: EmbeddedChunk[] = [];
+    if (changedChunks.length > 0) {
+      const existing = previous ? buildEmbeddingLookup(previous) : new Map<string, Vector>();
+      checkpointState?.embeddings.forEach((embedding, hash) => existing.set(hash, embedding));
+      
+      checkpoint.start(embeddingProvider.info, checkpointState !== null);
+      try {
+        embeddedChunks = await generateEmbeddings(changedChunks, embeddingProvider, { existing, checkpoint });
+      } catch (error) {
+        console.error(`\n⚠ Embedding progress is saved in ${checkpoint.path}`);
+        console.error('Re-run setup with --resume to continue from the last completed batch.');
+        throw error;
+      }
+    }
+    
+    // Keep chunks in pages.json order so pages read top to bottom. Page
+    // metadata comes from pages.json, so editing it needs no re-parse.
+    const embeddedByHref = groupByHref(embeddedChunks);
+    const allChunks: EmbeddedChunk[] = [];
+    for (const page of PAGES) {
+      allChunks.push(...(embeddedByHref.get(page.href) || keptChunks.get(page.href) || []).map(chunk => ({
+        ...chunk,
+        pageName: page.name,
+        category: page.category,
+        tags: page.tags,
+      })));
+    }
+    
+    if (allChunks.length === 0) {
+      console.error('❌ No chunks were created from the scraped pages');
+      process.exit(1);
+    }
     
     // Step 4: Save to Cache
     console.log('\n--- Step 4: Saving to Cache ---');
-    await saveCache(embeddedChunks);
+    await saveCache(allChunks, embeddingProvider.info, {
+      quantization,
+      index: vectorIndex,
+      parserVersion: PARSER_VERSION,
+      pages: pageRecords,
+      baseUrl: BASE_URL,
+    });
+    checkpoint.clear();
+    saveReference(getCacheDir(), referencePages);
+    saveExamples(getCacheDir(), examplePages);
+    const referenceCount = Object.values(referencePages).reduce((sum, references) => sum + references.length, 0);
+    const exampleCount = Object.values(examplePages).reduce((sum, examples) => sum + examples.length, 0);
     
     console.log('\n=== Setup Complete ===');
-    console.log(`✓ Processed ${scrapedPages.length} pages`);
-    console.log(`✓ Created ${allChunks.length} content chunks`);
-    console.log(`✓ Generated ${embeddedChunks.length} embeddings`);
+    console.log(`✓ Processed ${added.length + changed.length} new or changed pages (${keptChunks.size} unchanged)`);
+    console.log(`✓ Index contains ${allChunks.length} content chunks`);
+    console.log(`✓ Extracted field reference tables for ${referenceCount} resources/commands`);
+    console.log(`✓ Extracted ${exampleCount} script examples`);
+    console.log(`✓ Indexed ${embeddedChunks.length} chunks from new or changed pages (unchanged chunk text reused its embedding)`);
     console.log('✓ Cache saved successfully');
+    if (docsVersion) {
+      console.log(`✓ Built the ${docsVersion} collection; search it with version "${docsVersion}" or make it the default with DOCS_VERSION=${docsVersion}`);
+    }
     console.log('\nThe server is now ready to start. Run: pnpm start');
     
   } catch (error) {
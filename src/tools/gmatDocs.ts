@@ -1,97 +1,726 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { SearchEngine, SearchResult } from '../utils/search.js';
-import OpenAI from 'openai';
+import { z } from 'zod';
+import { SearchEngine, SearchFilter, SearchResult } from '../utils/search.js';
+import { EmbeddingProvider } from '../utils/embeddingProvider.js';
+import { describeReranker, Reranker, rerankResults } from '../utils/reranker.js';
+import { ReferenceStore, suggestNames } from '../utils/reference.js';
+import { ExampleStore } from '../utils/examples.js';
+import { lintScript } from '../utils/scriptLinter.js';
+import { buildPageMarkdown, mergeChunkParts } from '../utils/documents.js';
+import { findCategory, getPageCategories } from '../utils/pages.js';
+import { formatHeadingPath } from '../utils/parser.js';
+import { AssembledHit, AssembledResults, assembleResults } from '../utils/resultAssembly.js';
+import { diffCategory, diffPage, FieldChanges, PageDiff } from '../utils/versionDiff.js';
+import { defineTool, ToolError, ToolOutput, ToolRegistry } from './registry.js';
 
 export interface GmatDocsToolsConfig {
   searchEngine: SearchEngine;
-  openaiClient: OpenAI;
+  // Null when no provider could be configured; only lexical search is available then
+  embeddingProvider: EmbeddingProvider | null;
+  reranker: Reranker;
+  // Field reference and script examples of each documentation version
+  referenceStores: Map<string, ReferenceStore>;
+  exampleStores: Map<string, ExampleStore>;
 }
 
-export const GMAT_DOCS_TOOLS: Tool[] = [
-  {
-    name: 'searchDocs',
-    description: 'Semantic search over GMAT documentation. Returns relevant sections with full content and sources.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'The search query - can be a question, topic, or keyword related to GMAT'
-        },
-        topK: {
-          type: 'number',
-          description: 'Maximum number of results to return (default: 10)',
-          minimum: 1,
-          maximum: 50,
-          default: 10
-        },
-        minScore: {
-          type: 'number',
-          description: 'Minimum similarity score threshold (0-1, default: 0.1)',
-          minimum: 0,
-          maximum: 1,
-          default: 0.1
-        }
-      },
-      required: ['query']
+// Lists also accept a single string, e.g. category: "Resources"
+const stringList = () => z.preprocess(
+  value => typeof value === 'string' ? [value] : value,
+  z.array(z.string().min(1))
+);
+
+// Name of a documentation collection, e.g. "R2022a"
+const versionArg = () => z.string().min(1).optional();
+
+const searchDocsSchema = z.object({
+  query: z.string().min(1)
+    .describe('The search query - can be a question, topic, or keyword related to GMAT'),
+  topK: z.coerce.number().int().min(1).max(50).default(10)
+    .describe('Maximum number of results to return (default: 10)'),
+  minScore: z.coerce.number().min(0).max(1).default(0.1)
+    .describe('Minimum semantic similarity score threshold (0-1, default: 0.1). Not applied to lexical matches.'),
+  mode: z.enum(['semantic', 'lexical', 'hybrid']).default('hybrid')
+    .describe('Retrieval mode: "semantic" (embeddings only), "lexical" (BM25 keyword matching, no embedding API needed) or "hybrid" (both, fused with reciprocal rank fusion). Default: hybrid'),
+  category: stringList().optional()
+    .describe(`Only search these parts of the manual, e.g. ["Resources"] for "what fields does X have" questions. Categories: ${getPageCategories().join(', ')}`),
+  excludeCategories: stringList().optional()
+    .describe('Skip these parts of the manual, e.g. ["Release Notes"]'),
+  pages: stringList().optional()
+    .describe('Only search these pages, by href or name, e.g. ["Spacecraft.html"]'),
+  tags: stringList().optional()
+    .describe('Only search pages tagged with any of these tags in pages.json'),
+  maxTokens: z.coerce.number().int().min(100).max(100000).default(8000)
+    .describe('Approximate token budget for the returned content (default: 8000). Hits that do not fit are cut or listed as omitted.'),
+  maxPerPage: z.coerce.number().int().min(1).max(50).default(3)
+    .describe('Maximum number of sections returned from one page (default: 3)'),
+  diversity: z.coerce.number().min(0).max(1).default(0)
+    .describe('Maximal marginal relevance: 0 ranks purely by relevance, higher values prefer hits unlike those already chosen (e.g. 0.3). Default: 0'),
+  format: z.enum(['markdown', 'json', 'compact']).default('markdown')
+    .describe('Text output: "markdown" (full sections), "json" (the structured hits) or "compact" (one line per hit with a short excerpt). Structured hits are always returned as structuredContent. Default: markdown'),
+  version: versionArg()
+    .describe('GMAT documentation version to search, e.g. "R2022a", when the server holds several releases (default: the server\'s default version)'),
+  rerank: z.boolean().default(false)
+    .describe('Reorder the top candidates with the server\'s reranker (a cross-encoder, an LLM or the built-in title/identifier heuristic) before returning topK. Slower, but better at putting the best section first. Default: false'),
+  candidates: z.coerce.number().int().min(1).max(200).default(50)
+    .describe('Number of retrieval results the reranker reorders when rerank is true; raised to at least 3 × topK (default: 50)'),
+});
+
+const searchHitSchema = z.object({
+  id: z.string().describe('Chunk ID, usable with getChunk'),
+  // More than one when consecutive parts of a long section were merged
+  chunkIds: z.array(z.string()),
+  pageName: z.string(),
+  href: z.string(),
+  url: z.string().describe('Absolute URL of the section, including its anchor when the source has one'),
+  heading: z.string().optional(),
+  headingPath: z.array(z.string()).optional()
+    .describe('Page name followed by the enclosing headings'),
+  anchor: z.string().optional(),
+  kind: z.enum(['prose', 'table', 'code']).optional()
+    .describe('What most of the section is made of'),
+  category: z.string().optional(),
+  version: z.string().describe('Documentation version the section is from; pass it to getChunk and getPage'),
+  score: z.number(),
+  content: z.string(),
+  truncated: z.boolean().describe('Content was cut to fit maxTokens; fetch the rest with getChunk'),
+});
+
+const searchDocsOutputSchema = z.object({
+  query: z.string(),
+  mode: z.enum(['semantic', 'lexical', 'hybrid']),
+  version: z.string(),
+  // Set when the requested mode could not be used, e.g. hybrid without embeddings
+  notice: z.string().optional(),
+  reranker: z.string().optional()
+    .describe('Reranker that ordered the hits; scores are then its relevance scores'),
+  hits: z.array(searchHitSchema),
+  omitted: z.array(z.object({
+    id: z.string(),
+    pageName: z.string(),
+    score: z.number(),
+    reason: z.enum(['max_tokens', 'max_per_page']),
+  })).describe('Relevant hits left out by maxTokens or maxPerPage'),
+  totalTokens: z.number().describe('Approximate tokens of the returned content'),
+});
+
+type SearchHit = z.output<typeof searchHitSchema>;
+
+const getFieldsSchema = z.object({
+  name: z.string().min(1)
+    .describe('Resource or command name as used in scripts, e.g. "Spacecraft" or "Propagate"'),
+  field: z.string().min(1).optional()
+    .describe('Optional field name (e.g. "DryMass"); when given, only that field is returned'),
+  version: versionArg()
+    .describe('GMAT documentation version whose field tables to use, e.g. "R2022a" (default: the server\'s default version)'),
+});
+
+const validateScriptSchema = z.object({
+  script: z.string()
+    .describe('Full text of the GMAT script'),
+  version: versionArg()
+    .describe('GMAT release the script targets, e.g. "R2022a"; it is checked against that version\'s documentation (default: the server\'s default version)'),
+});
+
+const findExamplesSchema = z.object({
+  uses: stringList().optional()
+    .describe('Resource types and commands the example should use, e.g. ["FiniteBurn", "Propagate"]. Examples using all of them rank first.'),
+  query: z.string().min(1).optional()
+    .describe('Keywords to rank examples by, e.g. "raise apogee"'),
+  category: stringList().optional()
+    .describe(`Only return examples from these parts of the manual, e.g. ["Tutorials"]. Categories: ${getPageCategories().join(', ')}`),
+  topK: z.coerce.number().int().min(1).max(20).default(5)
+    .describe('Maximum number of examples to return (default: 5)'),
+  version: versionArg()
+    .describe('GMAT documentation version to take examples from, e.g. "R2022a" (default: the server\'s default version)'),
+});
+
+const getChunkSchema = z.object({
+  id: z.string().min(1)
+    .describe('Chunk ID as returned by searchDocs'),
+  before: z.coerce.number().int().min(0).max(10).default(0)
+    .describe('Number of preceding chunks from the same page to include (default: 0)'),
+  after: z.coerce.number().int().min(0).max(10).default(0)
+    .describe('Number of following chunks from the same page to include (default: 0)'),
+  version: versionArg()
+    .describe('Documentation version the chunk ID is from, as returned by searchDocs (default: the server\'s default version)'),
+});
+
+const getPageSchema = z.object({
+  page: z.string().min(1)
+    .describe('Page href (e.g. "Propagate.html") or page name (e.g. "Target Finite Burn to Raise Apogee")'),
+  version: versionArg()
+    .describe('Documentation version to read the page from, e.g. "R2022a" (default: the server\'s default version)'),
+});
+
+const compareVersionsSchema = z.object({
+  page: z.string().min(1).optional()
+    .describe('Page href or name to compare, e.g. "Spacecraft.html" or "Propagate"'),
+  category: z.string().min(1).optional()
+    .describe(`Compare every page in this part of the manual instead of one page and list those that changed. Categories: ${getPageCategories().join(', ')}`),
+  from: z.string().min(1)
+    .describe('Older documentation version, e.g. "R2022a"'),
+  to: z.string().min(1)
+    .describe('Newer documentation version, e.g. "R2025a"'),
+});
+
+function notFound(message: string, suggestions: string[]): ToolError {
+  return new ToolError(
+    'not_found',
+    message + (suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : ''),
+    { suggestions }
+  );
+}
+
+/**
+ * The version a call asked for, or the default one.
+ */
+function resolveVersion(version: string | undefined, searchEngine: SearchEngine): string {
+  if (!version) return searchEngine.getDefaultVersion();
+  if (!searchEngine.hasVersion(version)) {
+    const versions = searchEngine.listVersions().map(info => info.version);
+    throw new ToolError('not_found', `No documentation version "${version}". Available: ${versions.join(', ')}`, {
+      suggestions: suggestNames(version, versions),
+      versions,
+    });
+  }
+  return version;
+}
+
+// Versions are only named in text output when there is more than one to choose from
+function hasSeveralVersions(searchEngine: SearchEngine): boolean {
+  return searchEngine.listVersions().length > 1;
+}
+
+// Collections built before setup extracted field tables or examples have none
+function getReferenceStore(config: GmatDocsToolsConfig, version: string): ReferenceStore {
+  return config.referenceStores.get(version) ?? new ReferenceStore(null);
+}
+
+function getExampleStore(config: GmatDocsToolsConfig, version: string): ExampleStore {
+  return config.exampleStores.get(version) ?? new ExampleStore(null);
+}
+
+const COMPACT_EXCERPT_LENGTH = 200;
+
+// Limits for compareVersions text: changed lines per side of a section, and
+// characters shown of an added or removed section
+const MAX_DIFF_LINES = 20;
+const MAX_SECTION_EXCERPT = 600;
+
+// Extra candidates so merging parts, the page cap and diversity still leave topK hits
+const CANDIDATE_MULTIPLIER = 3;
+const MIN_CANDIDATES = 30;
+
+function toSearchHit(hit: AssembledHit, searchEngine: SearchEngine): SearchHit {
+  const { chunk } = hit;
+  return {
+    id: chunk.id,
+    chunkIds: hit.chunkIds,
+    pageName: chunk.pageName,
+    href: chunk.href,
+    url: searchEngine.getPageUrl(chunk) + (chunk.anchor ? `#${chunk.anchor}` : ''),
+    heading: chunk.heading,
+    headingPath: chunk.headingPath,
+    anchor: chunk.anchor,
+    kind: chunk.kind,
+    category: chunk.category,
+    version: chunk.version!,
+    score: Number(hit.score.toFixed(4)),
+    content: hit.content,
+    truncated: hit.truncated,
+  };
+}
+
+/**
+ * Explains what was cut or left out, and how to get it.
+ */
+function describeOmissions(assembled: AssembledResults, maxTokens: number, maxPerPage: number): string {
+  const lines: string[] = [];
+  const truncated = assembled.hits.filter(hit => hit.truncated);
+  const overBudget = assembled.omitted.filter(hit => hit.reason === 'max_tokens');
+  const capped = assembled.omitted.filter(hit => hit.reason === 'max_per_page');
+
+  for (const hit of truncated) {
+    lines.push(`- ${hit.chunkIds[0]} was cut to fit maxTokens (${maxTokens}); read it in full with getChunk.`);
+  }
+  if (overBudget.length > 0) {
+    lines.push(`- ${overBudget.length} more hit${overBudget.length > 1 ? 's' : ''} did not fit maxTokens (${maxTokens}): ` +
+      `${overBudget.map(hit => hit.id).join(', ')}. Fetch them with getChunk or raise maxTokens.`);
+  }
+  if (capped.length > 0) {
+    lines.push(`- ${capped.length} more section${capped.length > 1 ? 's' : ''} from the same pages were skipped (maxPerPage ${maxPerPage}): ` +
+      `${capped.map(hit => hit.id).join(', ')}. Use getPage to read a whole page.`);
+  }
+  return lines.length > 0 ? `**Not shown**:\n${lines.join('\n')}` : '';
+}
+
+function formatSearchMarkdown(query: string, hits: SearchHit[], version?: string): string {
+  let response = `Found ${hits.length} relevant section${hits.length > 1 ? 's' : ''} for: "${query}"` +
+    (version ? ` in version ${version}` : '') + '\n\n';
+
+  hits.forEach((hit, i) => {
+    response += `## Result ${i + 1} (Score: ${hit.score.toFixed(3)})\n`;
+    response += `**Page**: ${hit.pageName}\n`;
+    if (hit.headingPath && hit.headingPath.length > 1) {
+      response += `**Section**: ${formatHeadingPath(hit.headingPath)}\n`;
     }
+    response += `**Source**: ${hit.url}\n`;
+    response += hit.chunkIds.length > 1
+      ? `**Chunk IDs**: ${hit.chunkIds.join(', ')}\n`
+      : `**Chunk ID**: ${hit.id}\n`;
+    response += `**Content**${hit.truncated ? ' (truncated)' : ''}:\n${hit.content}\n\n`;
+    response += '---\n\n';
+  });
+
+  return response.trim();
+}
+
+function formatSearchCompact(hits: SearchHit[], version?: string): string {
+  const header = version ? `Version ${version}\n` : '';
+  return header + hits.map((hit, i) => {
+    const excerpt = hit.content.replace(/\s+/g, ' ');
+    const title = hit.headingPath ? formatHeadingPath(hit.headingPath)
+      : hit.heading ? `${hit.pageName} > ${hit.heading}` : hit.pageName;
+    return `${i + 1}. [${hit.score.toFixed(3)}] ${title} (${hit.chunkIds.join(', ')}) ${hit.url}\n   ` +
+      (excerpt.length > COMPACT_EXCERPT_LENGTH ? `${excerpt.slice(0, COMPACT_EXCERPT_LENGTH)}...` : excerpt);
+  }).join('\n');
+}
+
+function resolveCategory(name: string): string {
+  const category = findCategory(name);
+  if (!category) {
+    throw new ToolError('invalid_arguments', `Unknown category "${name}"`, { categories: getPageCategories() });
   }
-];
+  return category;
+}
+
+/**
+ * Resolves category names (case-insensitive, slugs allowed) and page names
+ * or hrefs as given by the client to the values stored on chunks.
+ */
+function resolveSearchFilter(
+  args: Pick<z.output<typeof searchDocsSchema>, 'category' | 'excludeCategories' | 'pages' | 'tags' | 'version'>,
+  searchEngine: SearchEngine
+): SearchFilter {
+  const version = resolveVersion(args.version, searchEngine);
+  const resolveCategories = (names: string[] | undefined) => names?.map(resolveCategory);
+
+  const pages = args.pages?.map(page => {
+    const href = searchEngine.resolvePageHref(page, version);
+    if (!href) {
+      throw notFound(`No page found for "${page}".`, suggestNames(page, searchEngine.listPages(version).flatMap(p => [p.pageName, p.href])));
+    }
+    return href;
+  });
+
+  return {
+    version,
+    categories: resolveCategories(args.category),
+    excludeCategories: resolveCategories(args.excludeCategories),
+    pages,
+    tags: args.tags,
+  };
+}
 
 export async function handleSearchDocs(
-  args: { query: string; topK?: number; minScore?: number },
+  args: z.output<typeof searchDocsSchema>,
   config: GmatDocsToolsConfig
-): Promise<string> {
-  const { query, topK = 10, minScore = 0.1 } = args;
-  const { searchEngine, openaiClient } = config;
-
-  try {
-    // Generate embedding for the query
-    const embeddingResponse = await openaiClient.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: query,
-      encoding_format: 'float'
-    });
+): Promise<ToolOutput> {
+  const { query, topK, minScore, mode, maxTokens, maxPerPage, diversity, format, rerank } = args;
+  const { searchEngine, embeddingProvider, reranker } = config;
+  // The reranker may see more candidates than asked for, never fewer than the page cap and diversity need
+  const candidates = Math.max(rerank ? args.candidates : 0, topK * CANDIDATE_MULTIPLIER, MIN_CANDIDATES);
+  const filter = resolveSearchFilter(args, searchEngine);
 
-    const queryEmbedding = embeddingResponse.data[0].embedding;
+  let results: SearchResult[];
+  let notice: string | undefined;
+
+  if (mode === 'lexical') {
+    results = await searchEngine.searchLexical(query, candidates, filter);
+  } else {
+    let queryEmbedding: number[] | null = null;
+    try {
+      if (!embeddingProvider) {
+        throw new Error('no embedding provider is configured');
+      }
+      // Generate embedding for the query
+      [queryEmbedding] = await embeddingProvider.embed([query]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (mode === 'semantic') {
+        throw new ToolError('embedding_unavailable', `Semantic search unavailable: ${errorMessage}`);
+      }
+      notice = `Note: semantic search unavailable (${errorMessage}); showing lexical results only.`;
+    }
 
     // Perform search
-    const results = await searchEngine.search(queryEmbedding, topK, minScore);
+    if (queryEmbedding === null) {
+      results = await searchEngine.searchLexical(query, candidates, filter);
+    } else if (mode === 'semantic') {
+      results = await searchEngine.search(queryEmbedding, candidates, minScore, filter);
+    } else {
+      results = await searchEngine.searchHybrid(query, queryEmbedding, candidates, minScore, filter);
+    }
+  }
+
+  let rerankedBy: string | undefined;
+  if (rerank) {
+    try {
+      results = await rerankResults(reranker, query, results);
+      rerankedBy = describeReranker(reranker.info);
+    } catch (error) {
+      // The retrieval order is still a usable answer
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const rerankNotice = `Note: reranking unavailable (${errorMessage}); showing results in retrieval order.`;
+      notice = notice ? `${notice}\n${rerankNotice}` : rerankNotice;
+    }
+  }
+
+  const assembled = assembleResults(results, { topK, maxTokens, maxPerPage, diversity });
+  const hits = assembled.hits.map(hit => toSearchHit(hit, searchEngine));
+  const structuredContent = {
+    query,
+    mode,
+    version: filter.version!,
+    ...(notice ? { notice } : {}),
+    ...(rerankedBy ? { reranker: rerankedBy } : {}),
+    hits,
+    omitted: assembled.omitted,
+    totalTokens: assembled.totalTokens,
+  };
+
+  let text: string;
+  if (format === 'json') {
+    text = JSON.stringify(structuredContent, null, 2);
+  } else if (hits.length === 0) {
+    text = `No relevant documentation found for query: "${query}"`;
+  } else {
+    const version = hasSeveralVersions(searchEngine) ? filter.version : undefined;
+    text = format === 'compact' ? formatSearchCompact(hits, version) : formatSearchMarkdown(query, hits, version);
+  }
+  if (format !== 'json') {
+    const omissions = describeOmissions(assembled, maxTokens, maxPerPage);
+    if (omissions) {
+      text = `${text}\n\n${omissions}`;
+    }
+    if (notice) {
+      text = `${notice}\n\n${text}`;
+    }
+  }
+
+  return { text, structuredContent };
+}
+
+export async function handleGetFields(
+  args: z.output<typeof getFieldsSchema>,
+  config: GmatDocsToolsConfig
+): Promise<string> {
+  const { name, field } = args;
+  const version = resolveVersion(args.version, config.searchEngine);
+  const referenceStore = getReferenceStore(config, version);
+  // Say which release the fields are from when the server holds several
+  const versionInfo = hasSeveralVersions(config.searchEngine) ? { version } : {};
+
+  if (referenceStore.size === 0) {
+    throw new ToolError('reference_unavailable', 'No field reference data available. Re-run setup to extract the reference tables.');
+  }
+
+  const entry = referenceStore.get(name);
+  if (!entry) {
+    throw notFound(`No field reference found for "${name}".`, suggestNames(name, referenceStore.list().map(e => e.name)));
+  }
 
-    if (results.length === 0) {
-      return `No relevant documentation found for query: "${query}"`;
+  if (field) {
+    const fieldInfo = referenceStore.getField(entry, field);
+    if (!fieldInfo) {
+      throw notFound(`${entry.name} has no documented field "${field}".`, suggestNames(field, entry.fields.map(f => f.name)));
     }
+    return JSON.stringify({ name: entry.name, kind: entry.kind, ...versionInfo, field: fieldInfo }, null, 2);
+  }
+
+  return JSON.stringify({ ...entry, ...versionInfo }, null, 2);
+}
+
+export async function handleValidateScript(
+  args: z.output<typeof validateScriptSchema>,
+  config: GmatDocsToolsConfig
+): Promise<string> {
+  const { script } = args;
+  const version = resolveVersion(args.version, config.searchEngine);
+  const referenceStore = getReferenceStore(config, version);
+  const versionInfo = hasSeveralVersions(config.searchEngine) ? { version } : {};
+
+  const result = { ...lintScript(script, referenceStore), ...versionInfo };
+  if (referenceStore.size === 0) {
+    // Without reference data only structural checks can run
+    return JSON.stringify({
+      ...result,
+      note: 'No field reference data available; resource types, fields and values were not checked. Re-run setup to extract the reference tables.',
+    }, null, 2);
+  }
+
+  return JSON.stringify(result, null, 2);
+}
+
+export async function handleFindExamples(
+  args: z.output<typeof findExamplesSchema>,
+  config: GmatDocsToolsConfig
+): Promise<string> {
+  const { uses = [], query, topK } = args;
+  const { searchEngine } = config;
+  const version = resolveVersion(args.version, searchEngine);
+  const exampleStore = getExampleStore(config, version);
+
+  if (uses.length === 0 && !query) {
+    throw new ToolError('invalid_arguments', 'Pass uses, query or both');
+  }
+  if (exampleStore.size === 0) {
+    throw new ToolError('examples_unavailable', 'No script examples available. Re-run setup to extract them.');
+  }
+
+  const known = exampleStore.listUses();
+  const knownLower = new Set(known.map(name => name.toLowerCase()));
+  const unknown = uses.filter(name => !knownLower.has(name.toLowerCase()));
+  if (unknown.length > 0 && unknown.length === uses.length) {
+    throw notFound(`No examples use ${unknown.join(', ')}.`, unknown.flatMap(name => suggestNames(name, known)));
+  }
+
+  const { categories } = resolveSearchFilter({ category: args.category, version }, searchEngine);
+  const matches = exampleStore.find({ uses, query, categories, topK });
+  if (matches.length === 0) {
+    return `No script examples found for ${[...uses, ...(query ? [`"${query}"`] : [])].join(', ')}`;
+  }
+
+  let response = `Found ${matches.length} script example${matches.length > 1 ? 's' : ''}` +
+    (uses.length > 0 ? ` using ${uses.join(', ')}` : '') +
+    (query ? ` for "${query}"` : '') +
+    (hasSeveralVersions(searchEngine) ? ` in version ${version}` : '') + '\n\n';
+  if (unknown.length > 0) {
+    response += `No examples use ${unknown.join(', ')}; ranked by the others.\n\n`;
+  }
+
+  matches.forEach(({ example, score, matched }, i) => {
+    const title = example.headingPath ? formatHeadingPath(example.headingPath) : example.pageName;
+    const fence = example.code.includes('```') ? '~~~' : '```';
+    response += `## Example ${i + 1}: ${title} (Score: ${score.toFixed(3)})\n`;
+    response += `**Source**: ${searchEngine.getPageUrl({ href: example.href, version })}${example.anchor ? `#${example.anchor}` : ''}\n`;
+    response += `**Chunk ID**: ${example.chunkId}\n`;
+    if (example.resources.length > 0) response += `**Resources**: ${example.resources.join(', ')}\n`;
+    if (example.commands.length > 0) response += `**Commands**: ${example.commands.join(', ')}\n`;
+    if (uses.length > 0 && matched.length < uses.length) {
+      response += `**Missing**: ${uses.filter(name => !matched.includes(name)).join(', ')}\n`;
+    }
+    response += `${fence}\n${example.code}\n${fence}\n\n`;
+  });
+
+  return response.trim();
+}
+
+export async function handleGetChunk(
+  args: z.output<typeof getChunkSchema>,
+  config: GmatDocsToolsConfig
+): Promise<string> {
+  const { id, before, after } = args;
+  const { searchEngine } = config;
+  const version = resolveVersion(args.version, searchEngine);
+
+  const context = searchEngine.getChunkContext(id, before, after, version);
+  if (!context) {
+    // Offer ids from the same page when only the section part is wrong
+    const page = searchEngine.getPageChunks(id.split('#')[0], version);
+    const suggestions = page ? suggestNames(id, page.chunks.map(chunk => chunk.id)) : [];
+    throw notFound(`No chunk found with id "${id}".`, suggestions);
+  }
+
+  const { chunk, previous, next } = context;
+  const pageChunks = searchEngine.getPageChunks(chunk.href, version)!.chunks;
+  const index = pageChunks.findIndex(c => c.id === chunk.id);
+
+  let response = `## ${chunk.pageName}\n`;
+  if (chunk.headingPath && chunk.headingPath.length > 1) {
+    response += `**Section**: ${formatHeadingPath(chunk.headingPath)}\n`;
+  }
+  response += `**Source**: ${searchEngine.getPageUrl({ href: chunk.href, version })}${chunk.anchor ? `#${chunk.anchor}` : ''}\n`;
+  if (hasSeveralVersions(searchEngine)) {
+    response += `**Version**: ${version}\n`;
+  }
+  response += `**Chunk ID**: ${chunk.id} (${index + 1} of ${pageChunks.length} on this page)\n`;
+  const previousId = pageChunks[index - previous.length - 1]?.id;
+  const nextId = pageChunks[index + next.length + 1]?.id;
+  if (previousId) response += `**Previous chunk**: ${previousId}\n`;
+  if (nextId) response += `**Next chunk**: ${nextId}\n`;
+  response += '\n';
+
+  for (const section of mergeChunkParts([...previous, chunk, ...next])) {
+    response += `<!-- ${section.chunkIds.join(', ')} -->\n${section.content}\n\n`;
+  }
+
+  return response.trim();
+}
+
+export async function handleGetPage(
+  args: z.output<typeof getPageSchema>,
+  config: GmatDocsToolsConfig
+): Promise<string> {
+  const { page } = args;
+  const { searchEngine } = config;
+  const version = resolveVersion(args.version, searchEngine);
+
+  const pageChunks = searchEngine.getPageChunks(page, version);
+  if (!pageChunks) {
+    throw notFound(`No page found for "${page}".`, suggestNames(page, searchEngine.listPages(version).flatMap(p => [p.pageName, p.href])));
+  }
+
+  return buildPageMarkdown(pageChunks, hasSeveralVersions(searchEngine) ? version : undefined);
+}
+
+function listFieldChanges(fields: FieldChanges): Array<{ label: string; names: string[] }> {
+  return [
+    { label: 'Fields added', names: fields.added },
+    { label: 'Fields removed', names: fields.removed },
+    { label: 'Fields changed', names: fields.changed },
+  ].filter(entry => entry.names.length > 0);
+}
+
+function describeSectionCounts(diff: PageDiff): string {
+  const count = (change: string) => diff.sections.filter(section => section.change === change).length;
+  return `${count('changed')} changed, ${count('added')} added, ${count('removed')} removed, ` +
+    `${diff.unchangedSections} unchanged sections`;
+}
+
+function excerpt(content: string): string {
+  return content.length > MAX_SECTION_EXCERPT ? `${content.slice(0, MAX_SECTION_EXCERPT)}...` : content;
+}
+
+function formatPageDiff(diff: PageDiff, from: string, to: string): string {
+  let response = `# ${diff.pageName} (${diff.href}): ${from} → ${to}\n\n`;
+  if (diff.change === 'added' || diff.change === 'removed') {
+    response += `The page is ${diff.change === 'added' ? `new in ${to}` : `not in ${to}`}.\n\n`;
+  } else if (diff.change === 'unchanged') {
+    return `${response}No changes.`;
+  } else {
+    response += `${describeSectionCounts(diff)}\n\n`;
+  }
+  for (const { label, names } of listFieldChanges(diff.fields)) {
+    response += `**${label}**: ${names.join(', ')}\n`;
+  }
 
-    // Format results
-    let response = `Found ${results.length} relevant section${results.length > 1 ? 's' : ''} for: "${query}"\n\n`;
-    
-    for (let i = 0; i < results.length; i++) {
-      const result = results[i];
-      const { chunk, score } = result;
-      
-      response += `## Result ${i + 1} (Score: ${score.toFixed(3)})\n`;
-      response += `**Page**: ${chunk.pageName}\n`;
-      response += `**Source**: ${chunk.href}\n`;
-      response += `**Content**:\n${chunk.fullContent}\n\n`;
-      response += '---\n\n';
+  for (const section of diff.sections) {
+    response += `\n## ${section.change.charAt(0).toUpperCase()}${section.change.slice(1)}: ${section.title}\n`;
+    response += `**Chunk ID**: ${section.id}\n`;
+    if (section.change !== 'changed') {
+      // Pages that are only in one version are listed by section without their text
+      if (diff.change === 'changed') {
+        response += `${excerpt(section.content!)}\n`;
+      }
+      continue;
+    }
+    const lines = [
+      ...section.removedLines!.slice(0, MAX_DIFF_LINES).map(line => `- ${line}`),
+      ...section.addedLines!.slice(0, MAX_DIFF_LINES).map(line => `+ ${line}`),
+    ];
+    const hidden = section.removedLines!.length + section.addedLines!.length - lines.length;
+    response += `~~~diff\n${lines.join('\n')}\n~~~\n`;
+    if (hidden > 0) {
+      response += `(${hidden} more changed lines; compare the sections with getChunk)\n`;
     }
+  }
+
+  return response.trim();
+}
 
-    return response.trim();
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return `Error searching documentation: ${errorMessage}`;
+function formatCategoryDiff(category: string, diffs: PageDiff[], from: string, to: string): string {
+  const changed = diffs.filter(diff => diff.change !== 'unchanged');
+  let response = `# ${category}: ${from} → ${to}\n\n` +
+    `${changed.length} of ${diffs.length} pages changed`;
+  if (changed.length === 0) {
+    return `${response}.`;
   }
+  response += ':\n\n';
+
+  for (const diff of changed) {
+    const details = diff.change === 'changed'
+      ? [describeSectionCounts(diff), ...listFieldChanges(diff.fields).map(({ label, names }) => `${label.toLowerCase()}: ${names.join(', ')}`)]
+      : [diff.change === 'added' ? `new in ${to}` : `not in ${to}`];
+    response += `- **${diff.pageName}** (${diff.href}): ${details.join('; ')}\n`;
+  }
+  response += `\nCall compareVersions with a page for the section diff.`;
+
+  return response;
 }
 
-export async function handleGmatDocsTool(
-  toolName: string,
-  args: any,
+export async function handleCompareVersions(
+  args: z.output<typeof compareVersionsSchema>,
   config: GmatDocsToolsConfig
 ): Promise<string> {
-  switch (toolName) {
-    case 'searchDocs':
-      return handleSearchDocs(args, config);
-    default:
-      throw new Error(`Unknown tool: ${toolName}`);
+  const { page, category } = args;
+  const { searchEngine } = config;
+
+  if ((page === undefined) === (category === undefined)) {
+    throw new ToolError('invalid_arguments', 'Pass either page or category');
   }
-}
\ No newline at end of file
+  const from = resolveVersion(args.from, searchEngine);
+  const to = resolveVersion(args.to, searchEngine);
+  if (from === to) {
+    throw new ToolError('invalid_arguments', `from and to are both "${from}"; pass two different versions`);
+  }
+
+  if (category !== undefined) {
+    const resolved = resolveCategory(category);
+    return formatCategoryDiff(resolved, diffCategory(searchEngine, resolved, from, to), from, to);
+  }
+
+  const before = searchEngine.getPageChunks(page!, from);
+  const after = searchEngine.getPageChunks(page!, to);
+  if (!before && !after) {
+    const names = [...searchEngine.listPages(from), ...searchEngine.listPages(to)].flatMap(p => [p.pageName, p.href]);
+    throw notFound(`No page found for "${page}" in ${from} or ${to}.`, suggestNames(page!, Array.from(new Set(names))));
+  }
+
+  return formatPageDiff(diffPage(before, after), from, to);
+}
+
+export const GMAT_DOCS_TOOLS = new ToolRegistry<GmatDocsToolsConfig>([
+  defineTool({
+    name: 'searchDocs',
+    description: 'Search over GMAT documentation. Combines semantic similarity with exact keyword matching of GMAT identifiers (e.g. DifferentialCorrector, Sat.Earth.RMAG). Returns relevant sections with full content and sources. Pass version to search a specific GMAT release when the server holds several.',
+    schema: searchDocsSchema,
+    outputSchema: searchDocsOutputSchema,
+    handler: handleSearchDocs,
+  }),
+  defineTool({
+    name: 'getFields',
+    description: 'Structured field reference for a GMAT Resource (e.g. Spacecraft, ImpulsiveBurn, ForceModel) or Command (e.g. Propagate, Vary), extracted from the documentation field tables. Returns JSON with description, data type, allowed values, default value, units and interfaces for each field.',
+    schema: getFieldsSchema,
+    handler: handleGetFields,
+  }),
+  defineTool({
+    name: 'validateScript',
+    description: 'Lint a GMAT .script against the documented resources, fields and commands. Reports unknown resource types, misspelled fields, values outside documented enumerations and commands used before BeginMissionSequence, each with a line number and the relevant documentation page.',
+    schema: validateScriptSchema,
+    handler: handleValidateScript,
+  }),
+  defineTool({
+    name: 'findExamples',
+    description: 'Find complete GMAT script examples from the documentation by the resource types and commands they use (e.g. uses: ["FiniteBurn", "Propagate"]), optionally ranked by a keyword query. Returns each snippet with its page, section and the resources and commands it uses. Start new scripts from these.',
+    schema: findExamplesSchema,
+    handler: handleFindExamples,
+  }),
+  defineTool({
+    name: 'getChunk',
+    description: 'Fetch a documentation chunk by the Chunk ID returned by searchDocs (e.g. "Propagate#description" or "Tut_TargetFiniteBurn#configure_the_mission_sequence_part_2"), optionally with its neighbouring sections from the same page.',
+    schema: getChunkSchema,
+    handler: handleGetChunk,
+  }),
+  defineTool({
+    name: 'getPage',
+    description: 'Fetch a whole GMAT documentation page, reconstructed in document order. Use it to read the rest of a tutorial or reference page after a search hit.',
+    schema: getPageSchema,
+    handler: handleGetPage,
+  }),
+  defineTool({
+    name: 'compareVersions',
+    description: 'Compare a GMAT documentation page between two indexed releases (e.g. from: "R2022a", to: "R2025a"): sections added, removed or changed, with the changed lines, and fields added, removed or changed in the field tables. Pass category instead of page to list every page of that part of the manual that changed. Use it when upgrading scripts to a new GMAT release.',
+    schema: compareVersionsSchema,
+    handler: handleCompareVersions,
+  }),
+]);
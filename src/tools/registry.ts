@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export type ToolErrorCode =
+  | 'unknown_tool'
+  | 'invalid_arguments'
+  | 'not_found'
+  | 'embedding_unavailable'
+  | 'reference_unavailable'
+  | 'examples_unavailable'
+  | 'internal_error';
+
+/**
+ * An expected failure of a tool call. It is returned to the client as an
+ * `isError` result carrying `code`, so agents can react without parsing text.
+ */
+export class ToolError extends Error {
+  constructor(public code: ToolErrorCode, message: string, public details?: unknown) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+// Result of a tool with an outputSchema: text for LLM clients plus the structured form
+export interface ToolOutput {
+  text: string;
+  structuredContent: Record<string, unknown>;
+}
+
+export interface ToolDefinition<Config, Schema extends z.ZodObject = z.ZodObject> {
+  name: string;
+  description: string;
+  schema: Schema;
+  // When set, the handler must return a ToolOutput whose structuredContent matches it
+  outputSchema?: z.ZodObject;
+  handler: (args: z.output<Schema>, config: Config) => Promise<string | ToolOutput>;
+}
+
+/**
+ * A tool with any arguments, so tools with different schemas share one list.
+ * Its handler takes `never`, which every handler accepts; the registry only
+ * calls it with what the tool's own schema parsed.
+ */
+export type AnyToolDefinition<Config> = Omit<ToolDefinition<Config>, 'handler'> & {
+  handler: (args: never, config: Config) => Promise<string | ToolOutput>;
+};
+
+/**
+ * Helper that infers the handler's argument type from the schema.
+ */
+export function defineTool<Config, Schema extends z.ZodObject>(
+  definition: ToolDefinition<Config, Schema>
+): ToolDefinition<Config, Schema> {
+  return definition;
+}
+
+function toJsonSchema(schema: z.ZodObject, io: 'input' | 'output'): Record<string, unknown> {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, { io });
+  return jsonSchema;
+}
+
+function toErrorResult(error: ToolError): CallToolResult {
+  const body = {
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.details !== undefined ? { details: error.details } : {}),
+    },
+  };
+  return {
+    isError: true,
+    content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+  };
+}
+
+/**
+ * Single source of truth for the server's tools: the JSON Schema sent in
+ * tools/list is generated from the same zod schema that validates calls.
+ */
+export class ToolRegistry<Config> {
+  private tools = new Map<string, AnyToolDefinition<Config>>();
+
+  constructor(definitions: Array<AnyToolDefinition<Config>>) {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool ${definition.name} is defined twice`);
+      }
+      this.tools.set(definition.name, definition);
+    }
+  }
+
+  list(): Tool[] {
+    return Array.from(this.tools.values(), definition => {
+      const tool: Tool = {
+        name: definition.name,
+        description: definition.description,
+        // Describe what clients may send: fields with defaults are optional
+        inputSchema: toJsonSchema(definition.schema, 'input') as Tool['inputSchema'],
+      };
+      if (definition.outputSchema) {
+        tool.outputSchema = toJsonSchema(definition.outputSchema, 'output') as Tool['outputSchema'];
+      }
+      return tool;
+    });
+  }
+
+  async call(name: string, args: unknown, config: Config): Promise<CallToolResult> {
+    const definition = this.tools.get(name);
+    if (!definition) {
+      return toErrorResult(new ToolError('unknown_tool', `Unknown tool: ${name}`, {
+        availableTools: Array.from(this.tools.keys()),
+      }));
+    }
+
+    const schema: z.ZodObject = definition.schema;
+    const parsed = schema.safeParse(args ?? {});
+    if (!parsed.success) {
+      return toErrorResult(new ToolError('invalid_arguments', `Invalid arguments for ${name}`, {
+        issues: parsed.error.issues.map(issue => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+      }));
+    }
+
+    try {
+      const output = await definition.handler(parsed.data as never, config);
+      if (typeof output === 'string') {
+        return { content: [{ type: 'text', text: output }] };
+      }
+      // Catch handlers drifting from the schema advertised to clients
+      const outputSchema: z.ZodObject | undefined = definition.outputSchema;
+      outputSchema?.parse(output.structuredContent);
+      return {
+        content: [{ type: 'text', text: output.text }],
+        structuredContent: output.structuredContent,
+      };
+    } catch (error) {
+      if (error instanceof ToolError) {
+        return toErrorResult(error);
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Tool ${name} failed: ${errorMessage}`);
+      return toErrorResult(new ToolError('internal_error', errorMessage));
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import * as http from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  // When set, every request except /health needs "Authorization: Bearer <token>"
+  authToken?: string;
+  // Extra fields reported by the health endpoint
+  getHealth?: () => Record<string, unknown>;
+}
+
+// Streamable HTTP endpoint, plus the endpoints of the older HTTP+SSE transport
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export function getHttpTransportOptions(): HttpTransportOptions {
+  const value = process.env.MCP_PORT || '8000';
+  const port = /^\d+$/.test(value.trim()) ? parseInt(value, 10) : NaN;
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid MCP_PORT "${value}": expected a port number from 1 to 65535`);
+  }
+
+  return {
+    port,
+    host: process.env.MCP_HOST || '127.0.0.1',
+    authToken: process.env.MCP_AUTH_TOKEN || undefined,
+  };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(match[1].trim());
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Serves MCP over HTTP. Each client session gets its own Server from
+ * `createServer`, while the search index behind it is shared.
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<http.Server> {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+  const startedAt = Date.now();
+
+  async function handleStreamableRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    let transport = sessionId ? streamableTransports.get(sessionId) : undefined;
+    if (!transport) {
+      if (sessionId || req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId
+          ? `Unknown session: ${sessionId}`
+          : 'No session: send an initialize request first');
+        return;
+      }
+
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          streamableTransports.set(id, newTransport);
+        },
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          streamableTransports.delete(newTransport.sessionId);
+        }
+      };
+      await createServer().connect(newTransport);
+      transport = newTransport;
+    }
+
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseConnect(res: http.ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sseTransports.set(transport.sessionId, transport);
+    res.on('close', () => {
+      sseTransports.delete(transport.sessionId);
+    });
+    await createServer().connect(transport);
+  }
+
+  async function handleSseMessage(url: URL, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+        sendJson(res, 200, {
+          status: 'ok',
+          uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+          sessions: streamableTransports.size + sseTransports.size,
+          ...options.getHealth?.(),
+        });
+        return;
+      }
+
+      if (options.authToken && !isAuthorized(req, options.authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonRpcError(res, 401, 'Unauthorized');
+        return;
+      }
+
+      if (url.pathname === MCP_PATH) {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+        await handleSseConnect(res);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+        await handleSseMessage(url, req, res);
+      } else {
+        sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`HTTP ${req.method} ${url.pathname} failed: ${errorMessage}`);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, errorMessage);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  return httpServer;
+}
@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const TAR_BLOCK_SIZE = 512;
+
+export function isArchivePath(filePath: string): boolean {
+  return /\.(zip|tar|tar\.gz|tgz)$/i.test(filePath);
+}
+
+function readZip(buffer: Buffer): Map<string, Buffer> {
+  // The end record is at most 64 KiB of comment away from the end of the file
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a zip file: end of central directory not found');
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (offset === 0xffffffff) {
+    throw new Error('Zip64 archives are not supported');
+  }
+
+  const files = new Map<string, Buffer>();
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt zip file: bad central directory entry');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip file: bad local header for ${name}`);
+    }
+    // The local header has its own name and extra field lengths
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.set(name, data);
+    } else if (method === 8) {
+      files.set(name, zlib.inflateRawSync(data));
+    } else {
+      console.warn(`⚠ Skipping ${name}: unsupported zip compression method ${method}`);
+    }
+  }
+  return files;
+}
+
+function readTarString(buffer: Buffer, start: number, length: number): string {
+  const field = buffer.subarray(start, start + length);
+  const nul = field.indexOf(0);
+  return field.toString('utf8', 0, nul === -1 ? field.length : nul);
+}
+
+function readTar(buffer: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+  // Set by GNU long name and pax headers for the entry that follows them
+  let nextName: string | null = null;
+
+  while (offset + TAR_BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156]);
+    const prefix = readTarString(header, 257, 6).startsWith('ustar') ? readTarString(header, 345, 155) : '';
+    const headerName = (prefix ? `${prefix}/` : '') + readTarString(header, 0, 100);
+    const data = buffer.subarray(offset + TAR_BLOCK_SIZE, offset + TAR_BLOCK_SIZE + size);
+    offset += TAR_BLOCK_SIZE + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (type === 'L') {
+      nextName = data.toString('utf8').replace(/\0+$/, '');
+    } else if (type === 'x') {
+      const path = data.toString('utf8').match(/^\d+ path=(.*)$/m);
+      if (path) nextName = path[1];
+    } else {
+      if (type === '0' || type === '\0') {
+        files.set(nextName || headerName, data);
+      }
+      nextName = null;
+    }
+  }
+  return files;
+}
+
+/**
+ * Reads every file of a .zip, .tar, .tar.gz or .tgz archive into memory,
+ * keyed by its path inside the archive.
+ */
+export function readArchive(filePath: string): Map<string, Buffer> {
+  const buffer = fs.readFileSync(filePath);
+  if (/\.zip$/i.test(filePath)) {
+    return readZip(buffer);
+  }
+  return readTar(/\.(tar\.gz|tgz)$/i.test(filePath) ? zlib.gunzipSync(buffer) : buffer);
+}
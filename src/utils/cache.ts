@@ -1,8 +1,22 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { EmbeddedChunk } from './embedder.js';
-
-const CACHE_FILENAME = 'embeddings.json';
+import { EmbeddingProviderInfo } from './embeddingProvider.js';
+import { HnswIndex } from './hnsw.js';
+import { normalizeVectors } from './vectors.js';
+import {
+  PageRecord,
+  StoredCache,
+  VectorIndexType,
+  VectorQuantization,
+  LEGACY_CACHE_FILENAME,
+  MANIFEST_FILENAME,
+  getStoreFiles,
+  readLegacyCache,
+  readStoreManifest,
+  readVectorStore,
+  writeVectorStore,
+} from './vectorStore.js';
 
 function expandTildeInPath(filePath: string): string {
   if (filePath.startsWith('~/')) {
@@ -11,7 +25,18 @@ function expandTildeInPath(filePath: string): string {
   return filePath;
 }
 
-function getCacheDir(): string {
+// Collections of other documentation versions live in versions/<name>/ under the cache root
+export const COLLECTIONS_DIRNAME = 'versions';
+// Name of the collection stored directly in the cache root
+export const DEFAULT_COLLECTION = 'default';
+
+const VERSION_NAME = /^[A-Za-z0-9][\w.-]*$/;
+
+// Version setup builds, e.g. "R2022a"; unset builds the default collection.
+// null until set or first read, so DOCS_VERSION from .env is seen.
+let docsVersion: string | undefined | null = null;
+
+export function getCacheRoot(): string {
   if (process.env.CACHE_DIR) {
     return expandTildeInPath(process.env.CACHE_DIR);
   }
@@ -19,36 +44,110 @@ function getCacheDir(): string {
   return path.join(process.cwd(), 'data');
 }
 
+/**
+ * Selects the documentation version whose collection the cache functions
+ * read and write for the rest of the process.
+ */
+export function setDocsVersion(version: string | undefined): void {
+  if (version && !VERSION_NAME.test(version)) {
+    throw new Error(`Invalid docs version "${version}": use letters, digits, ".", "_" and "-", e.g. R2022a`);
+  }
+  docsVersion = version || undefined;
+}
+
+export function getDocsVersion(): string | undefined {
+  if (docsVersion === null) {
+    docsVersion = process.env.DOCS_VERSION || undefined;
+  }
+  return docsVersion;
+}
+
+export function getCollectionDir(cacheRoot: string, version: string): string {
+  return version === DEFAULT_COLLECTION ? cacheRoot : path.join(cacheRoot, COLLECTIONS_DIRNAME, version);
+}
+
+export function getCacheDir(): string {
+  return getCollectionDir(getCacheRoot(), getDocsVersion() || DEFAULT_COLLECTION);
+}
+
+/**
+ * Collections under a cache root that have a store: the default collection
+ * first, if there is one, then the versions by name.
+ */
+export function listCollections(cacheRoot: string): Array<{ version: string; dir: string }> {
+  const collections: Array<{ version: string; dir: string }> = [];
+  if (readStoreManifest(cacheRoot) || fs.existsSync(path.join(cacheRoot, LEGACY_CACHE_FILENAME))) {
+    collections.push({ version: DEFAULT_COLLECTION, dir: cacheRoot });
+  }
+
+  const versionsDir = path.join(cacheRoot, COLLECTIONS_DIRNAME);
+  if (fs.existsSync(versionsDir)) {
+    for (const entry of fs.readdirSync(versionsDir, { withFileTypes: true })) {
+      const dir = path.join(versionsDir, entry.name);
+      if (entry.isDirectory() && VERSION_NAME.test(entry.name) && readStoreManifest(dir)) {
+        collections.push({ version: entry.name, dir });
+      }
+    }
+  }
+  return collections.sort((a, b) =>
+    a.version === DEFAULT_COLLECTION ? -1 : b.version === DEFAULT_COLLECTION ? 1 : a.version.localeCompare(b.version));
+}
+
 function getCachePath(): string {
-  return path.join(getCacheDir(), CACHE_FILENAME);
+  return path.join(getCacheDir(), MANIFEST_FILENAME);
+}
+
+function getLegacyCachePath(): string {
+  return path.join(getCacheDir(), LEGACY_CACHE_FILENAME);
 }
 
-export async function saveCache(embeddedChunks: EmbeddedChunk[]): Promise<void> {
+function buildVectorIndex(chunks: EmbeddedChunk[]): HnswIndex {
+  const startedAt = Date.now();
+  const dimensions = chunks[0]?.embedding.length ?? 0;
+  const vectors = new Float32Array(chunks.length * dimensions);
+  chunks.forEach((chunk, i) => vectors.set(chunk.embedding, i * dimensions));
+  const index = HnswIndex.build(normalizeVectors(vectors, dimensions), dimensions);
+  console.log(`Built the HNSW index over ${chunks.length} vectors in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+  return index;
+}
+
+export async function saveCache(
+  embeddedChunks: EmbeddedChunk[],
+  embedding: EmbeddingProviderInfo,
+  options: {
+    quantization?: VectorQuantization;
+    index?: VectorIndexType;
+    parserVersion?: number;
+    pages?: Record<string, PageRecord>;
+    baseUrl?: string;
+  } = {}
+): Promise<void> {
   const cacheDir = getCacheDir();
-  const cachePath = getCachePath();
   
   try {
-    // Ensure cache directory exists
-    fs.mkdirSync(cacheDir, { recursive: true });
+    // Keep the quantization and index of the existing store unless told otherwise
+    const previous = readStoreManifest(cacheDir);
+    const quantization = options.quantization || previous?.quantization || 'float32';
+    const indexType = options.index || (previous?.index ? 'hnsw' : 'none');
     
-    console.log(`Saving ${embeddedChunks.length} embedded chunks to cache at ${cachePath}`);
+    console.log(`Saving ${embeddedChunks.length} embedded chunks to cache at ${cacheDir} (${quantization} vectors)`);
     
-    // Prepare cache data with metadata
-    const cacheData = {
-      timestamp: new Date().toISOString(),
-      version: '1.0',
-      chunks: embeddedChunks,
-      totalChunks: embeddedChunks.length,
-    };
-    
-    // Write to temporary file first, then rename for atomic operation
-    const tempPath = cachePath + '.tmp';
-    fs.writeFileSync(tempPath, JSON.stringify(cacheData, null, 2));
-    fs.renameSync(tempPath, cachePath);
+    const index = indexType === 'hnsw' ? buildVectorIndex(embeddedChunks) : undefined;
+    writeVectorStore(cacheDir, embeddedChunks, {
+      embedding: {
+        ...embedding,
+        dimensions: embedding.dimensions ?? embeddedChunks[0]?.embedding.length,
+      },
+      quantization,
+      parserVersion: options.parserVersion,
+      pages: options.pages,
+      baseUrl: options.baseUrl,
+      index,
+    });
     
-    // Calculate file size
-    const stats = fs.statSync(cachePath);
-    const fileSizeMB = (stats.size / (1024 * 1024)).toFixed(2);
+    // Calculate total store size
+    const totalBytes = getStoreFiles(cacheDir).reduce((sum, file) => sum + fs.statSync(file).size, 0);
+    const fileSizeMB = (totalBytes / (1024 * 1024)).toFixed(2);
     
     console.log(`Cache saved successfully (${fileSizeMB} MB)`);
   } catch (error) {
@@ -57,20 +156,22 @@ export async function saveCache(embeddedChunks: EmbeddedChunk[]): Promise<void>
   }
 }
 
-export function loadCache(): EmbeddedChunk[] | null {
-  const cachePath = getCachePath();
+export function loadCacheData(): StoredCache | null {
+  const cacheDir = getCacheDir();
   
   try {
-    if (!fs.existsSync(cachePath)) {
-      console.log('No cache file found');
-      return null;
+    let cacheData = readVectorStore(cacheDir);
+    if (cacheData) {
+      console.log(`Loading cache from ${cacheDir}`);
+    } else {
+      cacheData = readLegacyCache(cacheDir);
+      if (!cacheData) {
+        console.log('No cache file found');
+        return null;
+      }
+      console.log(`Loading legacy cache from ${getLegacyCachePath()} (run "pnpm run convert" to migrate)`);
     }
     
-    console.log(`Loading cache from ${cachePath}`);
-    
-    const cacheContent = fs.readFileSync(cachePath, 'utf8');
-    const cacheData = JSON.parse(cacheContent);
-    
     // Validate cache structure
     if (!cacheData.chunks || !Array.isArray(cacheData.chunks)) {
       throw new Error('Invalid cache format: missing chunks array');
@@ -84,12 +185,12 @@ export function loadCache(): EmbeddedChunk[] | null {
         throw new Error('Invalid chunk structure in cache');
       }
       
-      if (!Array.isArray(chunk.embedding)) {
+      if (!Array.isArray(chunk.embedding) && !(chunk.embedding instanceof Float32Array)) {
         throw new Error('Invalid embedding format in cache');
       }
     }
     
-    return cacheData.chunks as EmbeddedChunk[];
+    return cacheData;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`Failed to load cache: ${errorMessage}`);
@@ -97,12 +198,20 @@ export function loadCache(): EmbeddedChunk[] | null {
   }
 }
 
+export function loadCache(): EmbeddedChunk[] | null {
+  return loadCacheData()?.chunks ?? null;
+}
+
 export function clearCache(): void {
-  const cachePath = getCachePath();
+  const cacheDir = getCacheDir();
+  const files = [...getStoreFiles(cacheDir), getLegacyCachePath()].filter(file => fs.existsSync(file));
   
   try {
-    if (fs.existsSync(cachePath)) {
-      fs.unlinkSync(cachePath);
+    if (files.length > 0) {
+      // Remove the manifest first so a partially cleared store is never loaded
+      for (const file of files) {
+        fs.unlinkSync(file);
+      }
       console.log('Cache cleared successfully');
     } else {
       console.log('No cache file to clear');
@@ -113,34 +222,54 @@ export function clearCache(): void {
   }
 }
 
-export function getCacheInfo(): { exists: boolean; path: string; size?: string; timestamp?: string } {
+export function getCacheInfo(): { exists: boolean; path: string; size?: string; timestamp?: string; format?: string } {
+  const cacheDir = getCacheDir();
   const cachePath = getCachePath();
   
-  if (!fs.existsSync(cachePath)) {
+  try {
+    const manifest = readStoreManifest(cacheDir);
+    if (manifest) {
+      const totalBytes = getStoreFiles(cacheDir)
+        .filter(file => fs.existsSync(file))
+        .reduce((sum, file) => sum + fs.statSync(file).size, 0);
+      
+      return {
+        exists: true,
+        path: cachePath,
+        size: `${(totalBytes / (1024 * 1024)).toFixed(2)} MB`,
+        timestamp: manifest.timestamp,
+        format: `binary ${manifest.quantization}${manifest.index ? ` + ${manifest.index.type.toUpperCase()} index` : ''}`,
+      };
+    }
+  } catch {
+    return { exists: true, path: cachePath };
+  }
+  
+  const legacyPath = getLegacyCachePath();
+  if (!fs.existsSync(legacyPath)) {
     return { exists: false, path: cachePath };
   }
   
   try {
-    const stats = fs.statSync(cachePath);
+    const stats = fs.statSync(legacyPath);
     const fileSizeMB = (stats.size / (1024 * 1024)).toFixed(2);
     
     // Try to read timestamp from cache
     let timestamp;
     try {
-      const cacheContent = fs.readFileSync(cachePath, 'utf8');
-      const cacheData = JSON.parse(cacheContent);
-      timestamp = cacheData.timestamp;
+      timestamp = readLegacyCache(cacheDir)?.timestamp;
     } catch {
       // Ignore timestamp read errors
     }
     
     return {
       exists: true,
-      path: cachePath,
+      path: legacyPath,
       size: `${fileSizeMB} MB`,
       timestamp,
+      format: 'legacy json',
     };
   } catch (error) {
-    return { exists: true, path: cachePath };
+    return { exists: true, path: legacyPath };
   }
-}
\ No newline at end of file
+}
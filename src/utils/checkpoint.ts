@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Chunk } from './parser.js';
+import { EmbeddingProviderInfo, isSameEmbedding } from './embeddingProvider.js';
+import { Vector } from './vectorStore.js';
+
+export const CHECKPOINT_FILENAME = 'embedding-checkpoint.jsonl';
+
+/*
+ * Checkpoint layout (JSONL, appended to after every completed batch)
+ *
+ *   line 1   {"type":"header","startedAt":...,"embedding":{provider,model,dimensions}}
+ *   line n   {"type":"batch","batch":n,"ids":[...],"hashes":[...],"embeddings":[[...],...]}
+ *
+ * A crash can leave a truncated last line; it is ignored on load, so at most
+ * the batch in flight is lost.
+ */
+
+interface CheckpointHeader {
+  type: 'header';
+  startedAt: string;
+  embedding: EmbeddingProviderInfo;
+}
+
+interface CheckpointBatch {
+  type: 'batch';
+  batch: number;
+  ids: string[];
+  hashes: string[];
+  embeddings: number[][];
+}
+
+export interface CheckpointState {
+  startedAt: string;
+  embedding: EmbeddingProviderInfo;
+  doneIds: Set<string>;
+  embeddings: Map<string, Vector>;
+  batches: number;
+}
+
+export class EmbeddingCheckpoint {
+  private filePath: string;
+
+  constructor(cacheDir: string) {
+    this.filePath = path.join(cacheDir, CHECKPOINT_FILENAME);
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  exists(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+
+  /**
+   * Reads the completed batches of a previous run. Returns null when there
+   * is no checkpoint or it was written by a different embedding provider,
+   * model or vector size.
+   */
+  load(info: EmbeddingProviderInfo): CheckpointState | null {
+    if (!this.exists()) {
+      return null;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(line => line.trim().length > 0);
+    let state: CheckpointState | null = null;
+
+    for (const line of lines) {
+      let record: CheckpointHeader | CheckpointBatch;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // Partially written line from an interrupted run
+        continue;
+      }
+
+      if (record.type === 'header') {
+        if (!isSameEmbedding(record.embedding, info)) {
+          return null;
+        }
+        state = {
+          startedAt: record.startedAt,
+          embedding: record.embedding,
+          doneIds: new Set(),
+          embeddings: new Map(),
+          batches: 0,
+        };
+      } else if (record.type === 'batch' && state) {
+        // A header without dimensions leaves only the vectors to check
+        if (info.dimensions && record.embeddings.some(embedding => embedding.length !== info.dimensions)) {
+          return null;
+        }
+        record.ids.forEach(id => state!.doneIds.add(id));
+        record.hashes.forEach((hash, i) => state!.embeddings.set(hash, record.embeddings[i]));
+        state.batches++;
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Starts a checkpoint for a new run. When resuming, the existing file is
+   * kept and new batches are appended to it.
+   */
+  start(info: EmbeddingProviderInfo, resume = false): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    if (resume && this.exists()) {
+      return;
+    }
+
+    const header: CheckpointHeader = {
+      type: 'header',
+      startedAt: new Date().toISOString(),
+      embedding: info,
+    };
+    fs.writeFileSync(this.filePath, JSON.stringify(header) + '\n');
+  }
+
+  record(batch: number, chunks: Chunk[], embeddings: Vector[]): void {
+    const record: CheckpointBatch = {
+      type: 'batch',
+      batch,
+      ids: chunks.map(chunk => chunk.id),
+      hashes: chunks.map(chunk => chunk.contentHash!),
+      embeddings: embeddings.map(embedding => Array.from(embedding)),
+    };
+    fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n');
+  }
+
+  clear(): void {
+    if (this.exists()) {
+      fs.unlinkSync(this.filePath);
+    }
+  }
+}
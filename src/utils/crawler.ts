@@ -0,0 +1,325 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import * as fs from 'fs';
+import { BASE_URL, findPage, getPageUrl, Page, PAGES } from './pages.js';
+import { ScrapedPage, USER_AGENT } from './scraper.js';
+import { createDocSource, DocSource } from './sources.js';
+
+export interface CrawlOptions {
+  // Pages to start from, relative to BASE_URL; "" is BASE_URL itself
+  seeds: string[];
+  // Number of links followed from a seed
+  maxDepth: number;
+  // Glob patterns on the href; pages must match one of `include` and none of `exclude`
+  include: string[];
+  exclude: string[];
+  maxPages: number;
+  respectRobots: boolean;
+}
+
+export interface CrawlResult {
+  // Discovered pages: entries of the current page list first, in its order, then new ones
+  pages: Page[];
+  scraped: ScrapedPage[];
+  // Pages not in the current page list, and listed pages the crawl did not reach
+  appeared: Page[];
+  disappeared: Page[];
+}
+
+export interface RobotsRules {
+  isAllowed(path: string): boolean;
+  crawlDelayMs?: number;
+}
+
+export const CRAWL_MANIFEST_FILENAME = 'pages.crawled.json';
+
+// Delay between requests when robots.txt does not ask for more
+const MIN_DELAY_MS = 500;
+
+async function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function parseList(value: string | undefined, fallback: string[]): string[] {
+  if (value === undefined) return fallback;
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+export function getCrawlOptions(): CrawlOptions {
+  const maxDepth = parseInt(process.env.CRAWL_MAX_DEPTH || '5', 10);
+  const maxPages = parseInt(process.env.CRAWL_MAX_PAGES || '1000', 10);
+  return {
+    seeds: parseList(process.env.CRAWL_SEEDS, ['']),
+    maxDepth: Number.isFinite(maxDepth) && maxDepth >= 0 ? maxDepth : 5,
+    include: parseList(process.env.CRAWL_INCLUDE, ['*.html']),
+    exclude: parseList(process.env.CRAWL_EXCLUDE, []),
+    maxPages: Number.isFinite(maxPages) && maxPages > 0 ? maxPages : 1000,
+    respectRobots: !/^(0|false|no)$/i.test(process.env.CRAWL_RESPECT_ROBOTS || ''),
+  };
+}
+
+/**
+ * Converts a glob to a regular expression: `*` matches within one path
+ * segment, `**` across segments.
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('**')
+    .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+// robots.txt paths use * as a wildcard and may end with $ to anchor the match
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parses the rules of robots.txt that apply to `userAgent`: its own group if
+ * there is one, otherwise the `*` group. The longest matching rule wins, and
+ * Allow wins a tie.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const groups: Array<{ agents: string[]; rules: Array<{ allow: boolean; pattern: string }>; crawlDelay?: number }> = [];
+  let current: typeof groups[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const [, key, value] = match;
+
+    switch (key.toLowerCase()) {
+      case 'user-agent':
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      case 'allow':
+      case 'disallow':
+        // An empty Disallow allows everything
+        if (current && value) {
+          current.rules.push({ allow: key.toLowerCase() === 'allow', pattern: value });
+        }
+        break;
+      case 'crawl-delay':
+        if (current && Number.isFinite(parseFloat(value))) {
+          current.crawlDelay = parseFloat(value);
+        }
+        break;
+    }
+    lastWasAgent = false;
+  }
+
+  const agent = userAgent.toLowerCase();
+  const group = groups.find(g => g.agents.some(name => name && name !== '*' && agent.includes(name))) ||
+    groups.find(g => g.agents.includes('*'));
+  const rules = (group?.rules || []).map(rule => ({ ...rule, regex: robotsPatternToRegExp(rule.pattern) }));
+
+  return {
+    isAllowed(path: string): boolean {
+      let best: { allow: boolean; length: number } | null = null;
+      for (const rule of rules) {
+        if (!rule.regex.test(path)) continue;
+        if (!best || rule.pattern.length > best.length || (rule.pattern.length === best.length && rule.allow)) {
+          best = { allow: rule.allow, length: rule.pattern.length };
+        }
+      }
+      return best?.allow ?? true;
+    },
+    crawlDelayMs: group?.crawlDelay !== undefined ? group.crawlDelay * 1000 : undefined,
+  };
+}
+
+async function fetchRobotsRules(): Promise<RobotsRules> {
+  const url = new URL('/robots.txt', BASE_URL).toString();
+  try {
+    const response = await axios.get(url, {
+      timeout: 10000,
+      headers: { 'User-Agent': USER_AGENT },
+      responseType: 'text',
+      validateStatus: status => status < 500,
+    });
+    // A missing robots.txt allows everything
+    return parseRobotsTxt(response.status < 300 ? String(response.data) : '', USER_AGENT);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠ Could not read ${url} (${errorMessage}), crawling without robots.txt rules`);
+    return parseRobotsTxt('', USER_AGENT);
+  }
+}
+
+function createScopeFilter(options: Pick<CrawlOptions, 'include' | 'exclude'>): (href: string) => boolean {
+  const include = options.include.map(globToRegExp);
+  const exclude = options.exclude.map(globToRegExp);
+  return href =>
+    (include.length === 0 || include.some(pattern => pattern.test(href))) &&
+    !exclude.some(pattern => pattern.test(href));
+}
+
+/**
+ * Name of a newly found page: its <title>, else its first h1, else the file name.
+ */
+function getPageTitle($: cheerio.CheerioAPI, href: string): string {
+  const title = $('title').first().text().replace(/\s+/g, ' ').trim() ||
+    $('h1').first().text().replace(/\s+/g, ' ').trim();
+  return title || href.replace('.html', '');
+}
+
+/**
+ * Hrefs (relative to BASE_URL) of the in-scope links on a page.
+ */
+function extractLinks($: cheerio.CheerioAPI, pageUrl: string): string[] {
+  const links = new Set<string>();
+  $('a[href]').each((_, element) => {
+    const target = $(element).attr('href') || '';
+    if (/^(mailto|javascript|tel):/i.test(target)) return;
+    try {
+      const url = new URL(target, pageUrl);
+      url.hash = '';
+      url.search = '';
+      const absolute = url.toString();
+      if (absolute.startsWith(BASE_URL)) {
+        links.add(absolute.slice(BASE_URL.length));
+      }
+    } catch {
+      // Malformed link
+    }
+  });
+  return Array.from(links);
+}
+
+/**
+ * Crawls the documentation breadth-first from the seed pages, following
+ * links under BASE_URL. Pages already in the page list keep their name,
+ * category and tags; new pages are named from the page itself and take the
+ * category of the page they were first linked from.
+ */
+export async function crawlSite(options: CrawlOptions, source: DocSource = createDocSource()): Promise<CrawlResult> {
+  const inScope = createScopeFilter(options);
+
+  // robots.txt and request delays only apply to a web server
+  const robots = options.respectRobots && source.remote ? await fetchRobotsRules() : parseRobotsTxt('', USER_AGENT);
+  const requestDelay = source.remote ? Math.max(MIN_DELAY_MS, robots.crawlDelayMs || 0) : 0;
+  const isAllowed = (href: string) => robots.isAllowed(new URL(getPageUrl(href)).pathname);
+
+  const queue: Array<{ href: string; depth: number; category?: string }> =
+    options.seeds.map(href => ({ href, depth: 0 }));
+  const queued = new Set(options.seeds);
+  const found = new Map<string, Page>();
+  const scraped: ScrapedPage[] = [];
+  let blocked = 0;
+
+  console.log(`Crawling ${source.description} from ${options.seeds.map(seed => seed || '/').join(', ')} (max depth ${options.maxDepth})`);
+
+  while (queue.length > 0 && found.size < options.maxPages) {
+    const { href, depth, category } = queue.shift()!;
+    if (!isAllowed(href)) {
+      blocked++;
+      continue;
+    }
+
+    let page: ScrapedPage;
+    try {
+      page = await source.fetch(href);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to crawl ${href}:`, errorMessage);
+      continue;
+    }
+    if (requestDelay > 0) await delay(requestDelay);
+    if (typeof page.html !== 'string') continue;
+
+    const $ = cheerio.load(page.html);
+    // Seeds like the site root are only followed, not indexed, unless they are in scope
+    const known = findPage(href);
+    const pageCategory = known ? known.category : category;
+    if (href && inScope(href)) {
+      found.set(href, known || {
+        name: getPageTitle($, href),
+        href,
+        ...(pageCategory ? { category: pageCategory } : {}),
+      });
+      scraped.push(page);
+    }
+
+    if (depth >= options.maxDepth) continue;
+    for (const link of extractLinks($, getPageUrl(href))) {
+      if (link && !queued.has(link) && inScope(link)) {
+        queued.add(link);
+        queue.push({ href: link, depth: depth + 1, category: pageCategory });
+      }
+    }
+  }
+
+  if (queue.length > 0) {
+    console.warn(`⚠ Stopped after ${options.maxPages} pages (CRAWL_MAX_PAGES); ${queue.length} links were not followed`);
+  }
+  if (blocked > 0) {
+    console.log(`Skipped ${blocked} pages disallowed by robots.txt`);
+  }
+
+  const listed = PAGES.filter(page => found.has(page.href));
+  const appeared = Array.from(found.values()).filter(page => !findPage(page.href));
+  return {
+    pages: [...listed, ...appeared],
+    scraped,
+    appeared,
+    disappeared: PAGES.filter(page => !found.has(page.href)),
+  };
+}
+
+/**
+ * Pages of a local source that are not in the page list and match
+ * CRAWL_INCLUDE / CRAWL_EXCLUDE, named from the page itself.
+ */
+export async function findUnlistedPages(source: DocSource, options = getCrawlOptions()): Promise<Page[]> {
+  if (!source.listPages) return [];
+  const inScope = createScopeFilter(options);
+  const pages: Page[] = [];
+
+  for (const href of source.listPages()) {
+    if (findPage(href) || !inScope(href)) continue;
+    try {
+      const { html } = await source.fetch(href);
+      pages.push({ name: getPageTitle(cheerio.load(html), href), href });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to read ${href}:`, errorMessage);
+    }
+  }
+  return pages;
+}
+
+/**
+ * Writes a page list in the layout of pages.json, one page per line, so the
+ * two can be diffed.
+ */
+export function writePagesManifest(filePath: string, pages: Page[]): void {
+  const lines = pages.map(page => '  { ' + Object.entries(page)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${JSON.stringify(key)}: ${JSON.stringify(value)}`)
+    .join(', ') + ' }');
+  fs.writeFileSync(filePath, `[\n${lines.join(',\n')}\n]\n`);
+}
+
+export function logCrawlChanges(result: CrawlResult): void {
+  console.log(`✓ Crawl found ${result.pages.length} pages: ${result.appeared.length} not in the page list, ` +
+    `${result.disappeared.length} listed pages not found`);
+  for (const page of result.appeared) {
+    console.log(`  + ${page.href} (${page.name})`);
+  }
+  for (const page of result.disappeared) {
+    console.log(`  - ${page.href} (${page.name})`);
+  }
+}
@@ -0,0 +1,47 @@
+import { PageChunks, SearchChunk } from './search.js';
+import { joinContinuedPart } from './markdown.js';
+
+export interface DocumentSection {
+  // Id of the section the parts were split from
+  id: string;
+  chunkIds: string[];
+  content: string;
+}
+
+// Id of the section a chunk was split from, or its own id if it wasn't split
+export function getSectionId(chunk: Pick<SearchChunk, 'id' | 'sectionId'>): string {
+  return chunk.sectionId ?? chunk.id;
+}
+
+/**
+ * Joins consecutive parts that splitLargeChunk produced from the same section
+ * back into one section, preserving order.
+ */
+export function mergeChunkParts(chunks: SearchChunk[]): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+
+  for (const chunk of chunks) {
+    const sectionId = getSectionId(chunk);
+    const last = sections[sections.length - 1];
+    if (last && last.id === sectionId && chunk.part !== undefined) {
+      last.chunkIds.push(chunk.id);
+      last.content = joinContinuedPart(last.content, chunk.fullContent, chunk.continuation);
+    } else {
+      sections.push({ id: sectionId, chunkIds: [chunk.id], content: chunk.fullContent });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Rebuilds a documentation page as Markdown from its chunks in document order.
+ * `version` is shown under the source when given.
+ */
+export function buildPageMarkdown(page: PageChunks, version?: string): string {
+  const sections = mergeChunkParts(page.chunks);
+  return `# ${page.pageName}\n\n` +
+    `Source: ${page.href}\n\n` +
+    (version ? `Version: ${version}\n\n` : '') +
+    sections.map(section => section.content).join('\n\n');
+}
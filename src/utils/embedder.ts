@@ -1,11 +1,20 @@
-import OpenAI from 'openai';
-import { Chunk } from './parser.js';
+import { Chunk, formatHeadingPath } from './parser.js';
+import { CODE_FENCE, ContentKind, getContentKind, getTableHeader, splitMarkdownBlocks } from './markdown.js';
+import { EmbeddingProvider, describeEmbeddingProvider } from './embeddingProvider.js';
+import { Vector } from './vectorStore.js';
+import { hashContent } from './hash.js';
+import { EmbeddingCheckpoint } from './checkpoint.js';
 
 export interface EmbeddedChunk extends Chunk {
-  embedding: number[];
+  embedding: Vector;
 }
 
-const EMBEDDING_MODEL = 'text-embedding-3-small';
+// USD per 1K tokens, used for the setup cost estimate
+const OPENAI_PRICING: Record<string, number> = {
+  'text-embedding-3-small': 0.00002,
+  'text-embedding-3-large': 0.00013,
+  'text-embedding-ada-002': 0.0001,
+};
 const MAX_BATCH_SIZE = 50; // Reduced batch size to avoid token limits
 const MAX_RETRIES = 3;
 const MAX_TOKENS_PER_BATCH = 6000; // Conservative limit for entire batch
@@ -15,7 +24,7 @@ async function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-function estimateTokens(text: string): number {
+export function estimateTokens(text: string): number {
   // Rough estimation: ~4 characters per token
   return Math.ceil(text.length / 4);
 }
@@ -46,100 +55,159 @@ function hardSliceByCharacters(text: string, maxTokens: number): string[] {
   return slices;
 }
 
+interface ChunkPiece {
+  text: string;
+  continuation?: ContentKind;
+}
+
+/**
+ * Greedily packs units into pieces of at most maxTokens, joined by separator.
+ * Units that are too large on their own are split by `splitUnit`.
+ */
+function packUnits(
+  units: string[],
+  maxTokens: number,
+  separator: string,
+  splitUnit: (unit: string) => string[]
+): string[] {
+  const pieces: string[] = [];
+  let buffer = '';
+  for (const unit of units) {
+    const tentative = buffer + (buffer ? separator : '') + unit;
+    if (estimateTokens(tentative) <= maxTokens) {
+      buffer = tentative;
+      continue;
+    }
+    if (buffer) pieces.push(buffer);
+    buffer = '';
+    if (estimateTokens(unit) <= maxTokens) {
+      buffer = unit;
+    } else {
+      pieces.push(...splitUnit(unit));
+    }
+  }
+  if (buffer) pieces.push(buffer);
+  return pieces;
+}
+
+function splitProse(text: string, maxTokens: number): string[] {
+  const splitSentences = (line: string) =>
+    packUnits(splitBySentences(line), maxTokens, ' ', sentence => hardSliceByCharacters(sentence, maxTokens));
+  return packUnits(text.split('\n'), maxTokens, '\n', splitSentences);
+}
+
+/**
+ * Splits a table between rows, repeating its header in every piece. Only a
+ * single row larger than maxTokens is cut.
+ */
+function splitTable(table: string, maxTokens: number): ChunkPiece[] {
+  const header = getTableHeader(table);
+  const rows = (header ? table.slice(header.length + 1) : table).split('\n');
+  const rowBudget = header ? Math.max(maxTokens - estimateTokens(header), 1) : maxTokens;
+  const pieces = packUnits(rows, rowBudget, '\n', row => hardSliceByCharacters(row, rowBudget));
+  return pieces.map((piece, i) => ({
+    text: header ? `${header}\n${piece}` : piece,
+    continuation: i > 0 ? 'table' : undefined,
+  }));
+}
+
+/**
+ * Splits a fenced code block between lines, closing and reopening the fence
+ * so every piece is a complete code block. Only a single line larger than
+ * maxTokens is cut.
+ */
+function splitCode(code: string, maxTokens: number): ChunkPiece[] {
+  const lines = code.split('\n');
+  const opening = lines[0];
+  const closing = opening.match(CODE_FENCE)![1];
+  const hasClosing = lines.length > 1 && lines[lines.length - 1].startsWith(closing);
+  const body = lines.slice(1, hasClosing ? -1 : undefined);
+  const bodyBudget = Math.max(maxTokens - estimateTokens(`${opening}\n\n${closing}`), 1);
+  const pieces = packUnits(body, bodyBudget, '\n', line => hardSliceByCharacters(line, bodyBudget));
+  return pieces.map((piece, i) => ({
+    text: `${opening}\n${piece}\n${closing}`,
+    continuation: i > 0 ? 'code' : undefined,
+  }));
+}
+
+/**
+ * Splits a section that is too large to embed at Markdown block boundaries.
+ * Code blocks and tables are only split between lines or rows, and each part
+ * is valid Markdown on its own.
+ */
 function splitLargeChunk(chunk: Chunk, maxTokens: number = 1000): Chunk[] {
   const estimatedTokens = estimateTokens(chunk.fullContent);
   if (estimatedTokens <= maxTokens) {
     return [chunk];
   }
 
-  const paragraphs = chunk.fullContent.split('\n\n').filter((p: string) => p.trim().length > 0);
-  const subChunks: Chunk[] = [];
+  const pieces: ChunkPiece[] = [];
   let buffer = '';
-  let partIndex = 0;
 
   function pushBufferIfAny(): void {
     if (buffer.trim().length === 0) return;
-    subChunks.push({
-      ...chunk,
-      id: `${chunk.id}_part_${partIndex++}`,
-      fullContent: buffer,
-    });
+    pieces.push({ text: buffer });
     buffer = '';
   }
 
-  for (const rawParagraph of paragraphs) {
-    const paragraph = rawParagraph.trim();
-    const paragraphTokens = estimateTokens(paragraph);
+  for (const block of splitMarkdownBlocks(chunk.fullContent)) {
+    const tentative = buffer + (buffer ? '\n\n' : '') + block.text;
+    if (estimateTokens(tentative) <= maxTokens) {
+      buffer = tentative;
+      continue;
+    }
 
-    if (paragraphTokens > maxTokens) {
+    if (estimateTokens(block.text) <= maxTokens) {
       pushBufferIfAny();
-      const sentences = splitBySentences(paragraph);
-      let sentenceBuffer = '';
-      for (const sentence of sentences) {
-        const tentative = sentenceBuffer + (sentenceBuffer ? ' ' : '') + sentence;
-        if (estimateTokens(tentative) > maxTokens) {
-          if (sentenceBuffer) {
-            subChunks.push({
-              ...chunk,
-              id: `${chunk.id}_part_${partIndex++}`,
-              fullContent: sentenceBuffer,
-            });
-            sentenceBuffer = '';
-          }
-          if (estimateTokens(sentence) > maxTokens) {
-            const slices = hardSliceByCharacters(sentence, maxTokens);
-            for (const slice of slices) {
-              subChunks.push({
-                ...chunk,
-                id: `${chunk.id}_part_${partIndex++}`,
-                fullContent: slice,
-              });
-            }
-          } else {
-            sentenceBuffer = sentence;
-          }
-        } else {
-          sentenceBuffer = tentative;
-        }
-      }
-      if (sentenceBuffer) {
-        subChunks.push({
-          ...chunk,
-          id: `${chunk.id}_part_${partIndex++}`,
-          fullContent: sentenceBuffer,
-        });
-      }
+      buffer = block.text;
       continue;
     }
 
-    const tentative = buffer + (buffer ? '\n\n' : '') + paragraph;
-    if (estimateTokens(tentative) > maxTokens) {
-      pushBufferIfAny();
-      buffer = paragraph;
-    } else {
-      buffer = tentative;
+    // Keep a short lead-in, such as the section heading, with the start of the block
+    const leadIn = estimateTokens(buffer) <= maxTokens / 4 ? buffer : '';
+    if (!leadIn) pushBufferIfAny();
+    const budget = maxTokens - estimateTokens(leadIn);
+    const blockPieces = block.kind === 'table' ? splitTable(block.text, budget)
+      : block.kind === 'code' ? splitCode(block.text, budget)
+      : splitProse(block.text, budget).map(text => ({ text }) as ChunkPiece);
+    if (leadIn) {
+      blockPieces[0].text = `${leadIn}\n\n${blockPieces[0].text}`;
+      buffer = '';
     }
+    pieces.push(...blockPieces);
   }
 
   pushBufferIfAny();
 
-  return subChunks.length > 0 ? subChunks : [chunk];
+  if (pieces.length === 0) {
+    return [chunk];
+  }
+  return pieces.map((piece, i) => ({
+    ...chunk,
+    id: `${chunk.id}_part_${i}`,
+    sectionId: chunk.id,
+    part: i,
+    fullContent: piece.text,
+    kind: getContentKind(piece.text),
+    // A chunk that is split again keeps its own continuation on its first part
+    continuation: i === 0 ? chunk.continuation : piece.continuation,
+  }));
 }
 
 async function embedBatch(
-  openai: OpenAI, 
+  provider: EmbeddingProvider, 
   texts: string[], 
   attempt = 1
 ): Promise<number[][]> {
   try {
     console.log(`Generating embeddings for batch of ${texts.length} chunks (attempt ${attempt})`);
     
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: texts,
-    });
+    const embeddings = await provider.embed(texts);
+    if (embeddings.length !== texts.length) {
+      throw new Error(`Provider returned ${embeddings.length} embeddings for ${texts.length} inputs`);
+    }
     
-    return response.data.map(d => d.embedding);
+    return embeddings;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     if (attempt >= MAX_RETRIES) {
@@ -153,16 +221,38 @@ async function embedBatch(
     const jitter = Math.random() * 1000;
     await delay(baseDelay + jitter);
     
-    return embedBatch(openai, texts, attempt + 1);
+    return embedBatch(provider, texts, attempt + 1);
   }
 }
 
+export interface GenerateEmbeddingsOptions {
+  // Embeddings from a previous run keyed by contentHash; matching chunks are not re-embedded
+  existing?: Map<string, Vector>;
+  // Completed batches are appended here so a failed run can be resumed
+  checkpoint?: EmbeddingCheckpoint;
+}
+
+/**
+ * The text sent to the embedding model: the section's breadcrumb followed by
+ * its content, so sections like "Remarks" carry the context they belong to.
+ */
+export function getEmbeddingText(chunk: Chunk): string {
+  if (!chunk.headingPath || chunk.headingPath.length === 0) {
+    return chunk.fullContent;
+  }
+  return `${formatHeadingPath(chunk.headingPath)}\n\n${chunk.fullContent}`;
+}
+
+// Always recomputed: split parts inherit their parent's fields, including its hash
+function withContentHash(chunk: Chunk): Chunk {
+  return { ...chunk, contentHash: hashContent(getEmbeddingText(chunk)) };
+}
+
 export async function generateEmbeddings(
   chunks: Chunk[], 
-  apiKey: string
+  provider: EmbeddingProvider,
+  options: GenerateEmbeddingsOptions = {}
 ): Promise<EmbeddedChunk[]> {
-  const openai = new OpenAI({ apiKey });
-  
   // Split large chunks to avoid token limits
   console.log(`Processing ${chunks.length} chunks, splitting large ones...`);
   const processedChunks: Chunk[] = [];
@@ -181,31 +271,85 @@ export async function generateEmbeddings(
     if (tokens > MAX_TOKENS_PER_INPUT) {
       const furtherSplit = splitLargeChunk(chunk, Math.min(1000, MAX_TOKENS_PER_INPUT - 200));
       console.log(`Further split ${chunk.id} into ${furtherSplit.length} parts due to input token limit`);
-      normalizedChunks.push(...furtherSplit);
+      normalizedChunks.push(...furtherSplit.map(withContentHash));
     } else {
-      normalizedChunks.push(chunk);
+      normalizedChunks.push(withContentHash(chunk));
     }
   }
   
-  console.log(`Generating embeddings for ${normalizedChunks.length} chunks using ${EMBEDDING_MODEL}`);
+  // Identical text always yields the same vector, so known hashes are reused as-is
+  const embeddingsByHash = new Map<string, Vector>();
+  for (const chunk of normalizedChunks) {
+    const existing = options.existing?.get(chunk.contentHash!);
+    if (existing) {
+      embeddingsByHash.set(chunk.contentHash!, existing);
+    }
+  }
+  const pendingHashes = new Set(
+    normalizedChunks.map(chunk => chunk.contentHash!).filter(hash => !embeddingsByHash.has(hash))
+  );
   
-  // Estimate total tokens
-  const totalTokens = normalizedChunks.reduce((sum, chunk) => sum + estimateTokens(chunk.fullContent), 0);
-  const estimatedCost = (totalTokens / 1000) * 0.00002; // $0.00002 per 1K tokens for text-embedding-3-small
-  console.log(`Estimated tokens: ${totalTokens.toLocaleString()}, estimated cost: $${estimatedCost.toFixed(4)}`);
+  if (embeddingsByHash.size > 0) {
+    console.log(`Reusing ${embeddingsByHash.size} existing embeddings for unchanged chunk text`);
+  }
+  console.log(`Generating embeddings for ${pendingHashes.size} chunks using ${describeEmbeddingProvider(provider.info)}`);
   
-  const embeddedChunks: EmbeddedChunk[] = [];
+  // Estimate total tokens
+  const totalTokens = normalizedChunks
+    .filter(chunk => pendingHashes.has(chunk.contentHash!))
+    .reduce((sum, chunk) => sum + estimateTokens(chunk.fullContent), 0);
+  const pricePer1K = provider.info.provider === 'openai' ? OPENAI_PRICING[provider.info.model] : undefined;
+  if (pricePer1K !== undefined) {
+    const estimatedCost = (totalTokens / 1000) * pricePer1K;
+    console.log(`Estimated tokens: ${totalTokens.toLocaleString()}, estimated cost: $${estimatedCost.toFixed(4)}`);
+  } else {
+    console.log(`Estimated tokens: ${totalTokens.toLocaleString()}`);
+  }
   
   // Process in smart batches based on token count
   let currentBatch: Chunk[] = [];
   let currentBatchTokens = 0;
   let batchNumber = 1;
   let processedCount = 0;
+  const totalPending = pendingHashes.size;
+  
+  async function processBatch(batch: Chunk[]): Promise<void> {
+    const texts = batch.map(getEmbeddingText);
+    const embeddings = await embedBatch(provider, texts);
+    
+    // Persist before anything else can fail so the batch is never paid for twice
+    options.checkpoint?.record(batchNumber, batch, embeddings);
+    
+    // Remember embeddings by content hash
+    for (let j = 0; j < batch.length; j++) {
+      embeddingsByHash.set(batch[j].contentHash!, embeddings[j]);
+    }
+    processedCount += batch.length;
+  }
   
   for (let i = 0; i < normalizedChunks.length; i++) {
     const chunk = normalizedChunks[i];
     const chunkTokens = estimateTokens(chunk.fullContent);
     
+    if (chunkTokens > MAX_TOKENS_PER_INPUT) {
+      const reSplit = splitLargeChunk(chunk, Math.min(1000, MAX_TOKENS_PER_INPUT - 200)).map(withContentHash);
+      console.log(`Re-splitting oversized chunk ${chunk.id} into ${reSplit.length} parts before batching`);
+      reSplit
+        .filter(part => !embeddingsByHash.has(part.contentHash!))
+        .forEach(part => pendingHashes.add(part.contentHash!));
+      // Insert the re-split chunks back into the iteration sequence at current position
+      normalizedChunks.splice(i, 1, ...reSplit);
+      // Re-evaluate the first of the re-split chunks in next iteration
+      i -= 1;
+      continue;
+    }
+
+    // Skip chunks that are already embedded or already queued
+    if (!pendingHashes.has(chunk.contentHash!)) {
+      continue;
+    }
+    pendingHashes.delete(chunk.contentHash!);
+
     // Check if adding this chunk would exceed limits
     if (currentBatch.length >= MAX_BATCH_SIZE || 
         (currentBatch.length > 0 && currentBatchTokens + chunkTokens > MAX_TOKENS_PER_BATCH)) {
@@ -214,23 +358,14 @@ export async function generateEmbeddings(
       console.log(`Processing batch ${batchNumber} (${currentBatch.length} chunks, ~${currentBatchTokens} tokens)`);
       
       try {
-        const texts = currentBatch.map(c => c.fullContent);
-        const embeddings = await embedBatch(openai, texts);
+        await processBatch(currentBatch);
+        console.log(`✓ Batch ${batchNumber} complete (${processedCount}/${totalPending})`);
         
-        // Combine chunks with embeddings
-        for (let j = 0; j < currentBatch.length; j++) {
-          embeddedChunks.push({
-            ...currentBatch[j],
-            embedding: embeddings[j],
-          });
+        // Small delay between batches to stay under remote rate limits
+        if (provider.info.provider !== 'local') {
+          await delay(1000);
         }
         
-        processedCount += currentBatch.length;
-        console.log(`✓ Batch ${batchNumber} complete (${processedCount}/${normalizedChunks.length})`);
-        
-        // Small delay between batches
-        await delay(1000);
-        
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         console.error(`Failed to process batch ${batchNumber}:`, errorMessage);
@@ -243,16 +378,6 @@ export async function generateEmbeddings(
       batchNumber++;
     }
     
-    if (chunkTokens > MAX_TOKENS_PER_INPUT) {
-      const reSplit = splitLargeChunk(chunk, Math.min(1000, MAX_TOKENS_PER_INPUT - 200));
-      console.log(`Re-splitting oversized chunk ${chunk.id} into ${reSplit.length} parts before batching`);
-      // Insert the re-split chunks back into the iteration sequence at current position
-      normalizedChunks.splice(i, 1, ...reSplit);
-      // Re-evaluate the first of the re-split chunks in next iteration
-      i -= 1;
-      continue;
-    }
-
     // Add chunk to current batch
     currentBatch.push(chunk);
     currentBatchTokens += chunkTokens;
@@ -263,16 +388,7 @@ export async function generateEmbeddings(
     console.log(`Processing final batch ${batchNumber} (${currentBatch.length} chunks, ~${currentBatchTokens} tokens)`);
     
     try {
-      const texts = currentBatch.map(c => c.fullContent);
-      const embeddings = await embedBatch(openai, texts);
-      
-      for (let j = 0; j < currentBatch.length; j++) {
-        embeddedChunks.push({
-          ...currentBatch[j],
-          embedding: embeddings[j],
-        });
-      }
-      
+      await processBatch(currentBatch);
       console.log(`✓ Final batch complete`);
       
     } catch (error) {
@@ -282,6 +398,12 @@ export async function generateEmbeddings(
     }
   }
   
-  console.log(`Successfully generated embeddings for ${embeddedChunks.length} chunks`);
+  // Assemble in document order
+  const embeddedChunks: EmbeddedChunk[] = normalizedChunks.map(chunk => ({
+    ...chunk,
+    embedding: embeddingsByHash.get(chunk.contentHash!)!,
+  }));
+  
+  console.log(`Successfully generated embeddings for ${processedCount} chunks (${embeddedChunks.length} total)`);
   return embeddedChunks;
-}
\ No newline at end of file
+}
@@ -0,0 +1,225 @@
+import OpenAI from 'openai';
+
+export type EmbeddingProviderType = 'openai' | 'openai-compatible' | 'local';
+
+export interface EmbeddingProviderInfo {
+  provider: EmbeddingProviderType;
+  model: string;
+  dimensions?: number;
+}
+
+export interface EmbeddingProvider {
+  readonly info: EmbeddingProviderInfo;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderConfig {
+  provider?: EmbeddingProviderType;
+  model?: string;
+  apiKey?: string;
+  baseURL?: string;
+  dimensions?: number;
+}
+
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+const DEFAULT_LOCAL_MODEL = 'hashing-v1';
+const DEFAULT_LOCAL_DIMENSIONS = 512;
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly info: EmbeddingProviderInfo;
+  private client: OpenAI;
+
+  constructor(config: { apiKey?: string; baseURL?: string; model: string; dimensions?: number; compatible?: boolean }) {
+    this.client = new OpenAI({
+      // OpenAI-compatible servers (vLLM, Ollama, LM Studio...) usually ignore the key
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseURL,
+    });
+    this.info = {
+      provider: config.compatible ? 'openai-compatible' : 'openai',
+      model: config.model,
+      dimensions: config.dimensions,
+    };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.info.model,
+      input: texts,
+      encoding_format: 'float',
+      ...(this.info.dimensions ? { dimensions: this.info.dimensions } : {}),
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(d => d.embedding);
+  }
+}
+
+function hashFeature(feature: string): number {
+  // FNV-1a, 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function extractFeatures(text: string): string[] {
+  const features: string[] = [];
+  const words = text.match(/[A-Za-z0-9_.]+/g) || [];
+
+  for (const rawWord of words) {
+    const word = rawWord.replace(/^\.+|\.+$/g, '');
+    if (word.length === 0) continue;
+
+    const lower = word.toLowerCase();
+    features.push(`w:${lower}`);
+
+    // Split GMAT identifiers like Sat.Earth.RMAG or BeginFiniteBurn into their parts
+    const parts = word
+      .split('.')
+      .flatMap(part => part.split(/(?<=[a-z0-9])(?=[A-Z])/))
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 0);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        features.push(`w:${part}`);
+      }
+    }
+
+    // Character trigrams give some robustness to inflections and typos
+    const padded = `#${lower}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      features.push(`c:${padded.slice(i, i + 3)}`);
+    }
+  }
+
+  return features;
+}
+
+/**
+ * Fully offline embedding provider based on feature hashing of words,
+ * identifier parts and character trigrams. It needs no model download and
+ * no network, which makes it usable on air-gapped machines and deterministic
+ * across runs.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly info: EmbeddingProviderInfo;
+
+  constructor(config: { model?: string; dimensions?: number } = {}) {
+    this.info = {
+      provider: 'local',
+      model: config.model || DEFAULT_LOCAL_MODEL,
+      dimensions: config.dimensions || DEFAULT_LOCAL_DIMENSIONS,
+    };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const dimensions = this.info.dimensions!;
+    const counts = new Map<string, number>();
+    for (const feature of extractFeatures(text)) {
+      counts.set(feature, (counts.get(feature) || 0) + 1);
+    }
+
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = hashFeature(feature);
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      // Word features carry more meaning than trigrams
+      const weight = feature.startsWith('w:') ? 1 : 0.5;
+      vector[hash % dimensions] += sign * weight * (1 + Math.log(count));
+    }
+
+    let norm = 0;
+    for (const value of vector) {
+      norm += value * value;
+    }
+    norm = Math.sqrt(norm);
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
+
+function parseProviderType(value: string | undefined): EmbeddingProviderType {
+  const type = (value || 'openai').toLowerCase();
+  if (type === 'openai' || type === 'openai-compatible' || type === 'local') {
+    return type;
+  }
+  throw new Error(`Unknown EMBEDDING_PROVIDER "${value}". Expected one of: openai, openai-compatible, local`);
+}
+
+/**
+ * Provider settings from the environment. `provider` overrides
+ * EMBEDDING_PROVIDER, e.g. to embed queries for a cache built with another
+ * one. OPENAI_API_KEY is only used for OpenAI itself, never sent to an
+ * EMBEDDING_BASE_URL of an OpenAI-compatible server.
+ */
+export function getEmbeddingProviderConfig(provider?: EmbeddingProviderType): EmbeddingProviderConfig {
+  const type = provider || parseProviderType(process.env.EMBEDDING_PROVIDER);
+  const dimensions = process.env.EMBEDDING_DIMENSIONS ? parseInt(process.env.EMBEDDING_DIMENSIONS, 10) : undefined;
+  if (dimensions !== undefined && (!Number.isInteger(dimensions) || dimensions <= 0)) {
+    throw new Error(`Invalid EMBEDDING_DIMENSIONS "${process.env.EMBEDDING_DIMENSIONS}"`);
+  }
+
+  return {
+    provider: type,
+    model: process.env.EMBEDDING_MODEL,
+    apiKey: process.env.EMBEDDING_API_KEY || (type === 'openai' ? process.env.OPENAI_API_KEY : undefined),
+    baseURL: process.env.EMBEDDING_BASE_URL,
+    dimensions,
+  };
+}
+
+export function createEmbeddingProvider(config: EmbeddingProviderConfig = getEmbeddingProviderConfig()): EmbeddingProvider {
+  switch (config.provider || 'openai') {
+    case 'openai':
+      if (!config.apiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is required for the openai embedding provider');
+      }
+      return new OpenAIEmbeddingProvider({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        model: config.model || DEFAULT_OPENAI_MODEL,
+        dimensions: config.dimensions,
+      });
+    case 'openai-compatible':
+      if (!config.baseURL) {
+        throw new Error('EMBEDDING_BASE_URL environment variable is required for the openai-compatible embedding provider');
+      }
+      if (!config.model) {
+        throw new Error('EMBEDDING_MODEL environment variable is required for the openai-compatible embedding provider');
+      }
+      return new OpenAIEmbeddingProvider({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        model: config.model,
+        dimensions: config.dimensions,
+        compatible: true,
+      });
+    case 'local':
+      return new LocalEmbeddingProvider({
+        model: config.model,
+        dimensions: config.dimensions,
+      });
+  }
+}
+
+/**
+ * Whether vectors made with `stored` can be mixed with those of `current`:
+ * same provider, model and dimensions. Dimensions are only compared when
+ * both are known; an OpenAI model left at its default size does not say it.
+ */
+export function isSameEmbedding(stored: EmbeddingProviderInfo, current: EmbeddingProviderInfo): boolean {
+  return stored.provider === current.provider &&
+    stored.model === current.model &&
+    (!stored.dimensions || !current.dimensions || stored.dimensions === current.dimensions);
+}
+
+export function describeEmbeddingProvider(info: EmbeddingProviderInfo): string {
+  return `${info.provider}/${info.model}${info.dimensions ? ` (${info.dimensions} dims)` : ''}`;
+}
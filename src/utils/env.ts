@@ -0,0 +1,7 @@
+import dotenv from 'dotenv';
+
+// Imported first by the command-line entry points. Imports are evaluated
+// before the importing module's body, and some modules read process.env as
+// they load (PAGES_FILE, BASE_URL), so .env has to be loaded by an import.
+dotenv.config({ path: '.env' });
+dotenv.config({ path: '.env.local' });
@@ -0,0 +1,259 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  createEmbeddingProvider,
+  describeEmbeddingProvider,
+  EmbeddingProvider,
+  EmbeddingProviderInfo,
+  getEmbeddingProviderConfig,
+  LocalEmbeddingProvider,
+} from './embeddingProvider.js';
+import { CachedEmbeddingProvider, QUERY_CACHE_DIRNAME } from './queryCache.js';
+import { Reranker, rerankResults } from './reranker.js';
+import { SearchEngine, SearchMode, SearchResult } from './search.js';
+import { getSectionId } from './documents.js';
+import { findCategory } from './pages.js';
+
+/**
+ * A page href ("Propagate.html") or a chunk id ("Propagate#stopping_conditions")
+ * that should be retrieved. Grades above 1 mark the best answers for nDCG.
+ */
+export interface ExpectedTarget {
+  target: string;
+  grade: number;
+}
+
+export interface GoldenQuery {
+  id: string;
+  query: string;
+  expected: ExpectedTarget[];
+  version?: string;
+  categories?: string[];
+}
+
+export interface EvalOptions {
+  k: number;
+  mode: SearchMode;
+  // Overrides the version of every golden query
+  version?: string;
+  reranker?: Reranker;
+  // Results the reranker reorders before the top k are scored
+  candidates?: number;
+}
+
+export interface QueryEvaluation {
+  id: string;
+  query: string;
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+  // 1-based rank at which each expected target was first retrieved
+  found: Array<{ target: string; rank: number | null }>;
+  // Chunk ids of the top k results
+  retrieved: string[];
+}
+
+export interface EvalMetrics {
+  recall: number;
+  mrr: number;
+  ndcg: number;
+}
+
+export interface EvalReport {
+  cacheDir: string;
+  embedding: string;
+  mode: SearchMode;
+  k: number;
+  // How semantic candidates were found: a full scan or the cache's HNSW index
+  vectorSearch: 'exact' | 'hnsw';
+  reranker?: string;
+  queries: QueryEvaluation[];
+  mean: EvalMetrics;
+}
+
+// Recorded query embeddings kept per cache; golden files stay far below this
+const MAX_RECORDED_QUERIES = 100000;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a golden file: a JSON array of queries, or an object with a
+ * `queries` array. Each query has an `id`, the `query` text and `expected`
+ * targets, given as strings or as `{ "target": ..., "grade": 2 }`.
+ */
+export function loadGoldenFile(filePath: string): GoldenQuery[] {
+  const data: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const list: unknown = Array.isArray(data) ? data : isRecord(data) ? data.queries : undefined;
+  const entries: unknown[] = Array.isArray(list) ? list : [];
+  if (entries.length === 0) {
+    throw new Error(`${filePath} has no queries; expected an array or { "queries": [...] }`);
+  }
+
+  const ids = new Set<string>();
+  return entries.map((value, i) => {
+    const label = `${filePath}: query ${i + 1}`;
+    const entry = isRecord(value) ? value : {};
+    if (typeof entry.query !== 'string' || entry.query.trim() === '') {
+      throw new Error(`${label} has no query text`);
+    }
+    const id = typeof entry.id === 'string' && entry.id ? entry.id : `q${i + 1}`;
+    if (ids.has(id)) {
+      throw new Error(`${label} repeats the id "${id}"`);
+    }
+    ids.add(id);
+
+    const items: unknown[] = Array.isArray(entry.expected) ? entry.expected : [];
+    const expected = items.map(item => {
+      const target = typeof item === 'string' ? item : isRecord(item) ? item.target : undefined;
+      const grade = typeof item === 'string' ? 1 : isRecord(item) ? item.grade ?? 1 : undefined;
+      if (typeof target !== 'string' || !target || typeof grade !== 'number' || grade <= 0) {
+        throw new Error(`${label} (${id}) has an invalid expected entry ${JSON.stringify(item)}`);
+      }
+      return { target, grade };
+    });
+    if (expected.length === 0) {
+      throw new Error(`${label} (${id}) lists no expected pages or chunks`);
+    }
+
+    const categories = entry.category === undefined ? undefined : [entry.category].flat().map((name: unknown) => {
+      const category = typeof name === 'string' ? findCategory(name) : undefined;
+      if (!category) {
+        throw new Error(`${label} (${id}) has an unknown category ${JSON.stringify(name)}`);
+      }
+      return category;
+    });
+
+    return {
+      id,
+      query: entry.query,
+      expected,
+      ...(typeof entry.version === 'string' ? { version: entry.version } : {}),
+      ...(categories ? { categories } : {}),
+    };
+  });
+}
+
+function matchesTarget(result: SearchResult, target: string): boolean {
+  const { chunk } = result;
+  return target.includes('#')
+    ? chunk.id === target || getSectionId(chunk) === target
+    : chunk.href === target;
+}
+
+/**
+ * Scores a ranking against the expected targets. Each target counts once, at
+ * the first result that matches it, so several chunks of an expected page
+ * do not inflate recall or nDCG.
+ */
+export function scoreRanking(results: SearchResult[], expected: ExpectedTarget[], k: number): Omit<QueryEvaluation, 'id' | 'query'> {
+  const ranks = new Map<string, number>();
+  const gains: number[] = [];
+
+  results.slice(0, k).forEach((result, i) => {
+    let gain = 0;
+    for (const { target, grade } of expected) {
+      if (!ranks.has(target) && matchesTarget(result, target)) {
+        ranks.set(target, i + 1);
+        gain = Math.max(gain, grade);
+      }
+    }
+    gains.push(gain);
+  });
+
+  const dcg = (values: number[]) => values.reduce((sum, gain, i) => sum + gain / Math.log2(i + 2), 0);
+  const ideal = dcg(expected.map(item => item.grade).sort((a, b) => b - a).slice(0, k));
+  const firstHit = gains.findIndex(gain => gain > 0);
+
+  return {
+    recall: ranks.size / expected.length,
+    reciprocalRank: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+    ndcg: ideal > 0 ? dcg(gains) / ideal : 0,
+    found: expected.map(({ target }) => ({ target, rank: ranks.get(target) ?? null })),
+    retrieved: results.slice(0, k).map(result => result.chunk.id),
+  };
+}
+
+/**
+ * Stands in for a remote embedding provider when evaluating offline. It has
+ * no embeddings of its own; wrapped in the persistent query cache, it serves
+ * the query embeddings recorded by an earlier online run and fails for any
+ * query that was not recorded.
+ */
+export class StubEmbeddingProvider implements EmbeddingProvider {
+  constructor(readonly info: EmbeddingProviderInfo) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    throw new Error(`No recorded ${describeEmbeddingProvider(this.info)} embedding for "${texts[0]}"; ` +
+      'run the evaluation once without --offline to record it, or use --mode lexical');
+  }
+}
+
+/**
+ * The provider that embeds queries for a cache: the one the cache was built
+ * with, so that caches built with different models can be compared. Query
+ * embeddings are recorded in the cache's query-cache directory, and with
+ * `offline` only those recordings are used. The local provider needs no
+ * network and is deterministic, so it is always used directly.
+ */
+export function createEvalEmbeddingProvider(info: EmbeddingProviderInfo, cacheDir: string, offline: boolean): EmbeddingProvider {
+  if (info.provider === 'local') {
+    return new LocalEmbeddingProvider({ model: info.model, dimensions: info.dimensions });
+  }
+  const provider = offline
+    ? new StubEmbeddingProvider(info)
+    : createEmbeddingProvider({ ...getEmbeddingProviderConfig(info.provider), ...info });
+  return new CachedEmbeddingProvider(provider, {
+    maxEntries: MAX_RECORDED_QUERIES,
+    persistDir: path.join(cacheDir, QUERY_CACHE_DIRNAME),
+  });
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Runs every golden query through the search engine in the given mode and
+ * scores its top k results.
+ */
+export async function evaluate(
+  searchEngine: SearchEngine,
+  embeddingProvider: EmbeddingProvider,
+  queries: GoldenQuery[],
+  options: EvalOptions
+): Promise<QueryEvaluation[]> {
+  const { k, mode, reranker } = options;
+  const evaluations: QueryEvaluation[] = [];
+
+  for (const golden of queries) {
+    const filter = { version: options.version || golden.version, categories: golden.categories };
+    const count = reranker ? Math.max(options.candidates || k, k) : k;
+
+    let results: SearchResult[];
+    if (mode === 'lexical') {
+      results = await searchEngine.searchLexical(golden.query, count, filter);
+    } else {
+      const [queryEmbedding] = await embeddingProvider.embed([golden.query]);
+      // No score threshold: a relevant chunk ranked low should still count
+      results = mode === 'semantic'
+        ? await searchEngine.search(queryEmbedding, count, 0, filter)
+        : await searchEngine.searchHybrid(golden.query, queryEmbedding, count, 0, filter);
+    }
+    if (reranker) {
+      results = await rerankResults(reranker, golden.query, results);
+    }
+
+    evaluations.push({ id: golden.id, query: golden.query, ...scoreRanking(results, golden.expected, k) });
+  }
+  return evaluations;
+}
+
+export function summarize(evaluations: QueryEvaluation[]): EvalMetrics {
+  return {
+    recall: mean(evaluations.map(evaluation => evaluation.recall)),
+    mrr: mean(evaluations.map(evaluation => evaluation.reciprocalRank)),
+    ndcg: mean(evaluations.map(evaluation => evaluation.ndcg)),
+  };
+}
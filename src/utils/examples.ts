@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Chunk } from './parser.js';
+import { splitMarkdownBlocks } from './markdown.js';
+import { GMAT_COMMANDS, parseCreate, splitStatements } from './scriptLinter.js';
+import { LexicalIndex } from './lexical.js';
+import { findPage } from './pages.js';
+
+export interface ScriptExample {
+  pageName: string;
+  href: string;
+  // Section the example appears in, usable with getChunk when it was not split
+  chunkId: string;
+  headingPath?: string[];
+  anchor?: string;
+  code: string;
+  // Resource types created with Create lines, e.g. "Spacecraft"
+  resources: string[];
+  // Commands the script runs, e.g. "Propagate"
+  commands: string[];
+}
+
+export interface ExampleData {
+  timestamp: string;
+  pages: Record<string, ScriptExample[]>;
+}
+
+export interface ExampleQuery {
+  // Resource types and commands the example should use
+  uses?: string[];
+  query?: string;
+  categories?: string[];
+  topK: number;
+}
+
+export interface ExampleMatch {
+  example: ScriptExample;
+  category?: string;
+  score: number;
+  // Entries of `uses` the example contains, in the casing of the query
+  matched: string[];
+}
+
+export const EXAMPLES_FILENAME = 'examples.json';
+
+const COMMANDS = new Set(GMAT_COMMANDS);
+// Weight of the query relevance relative to covering every entry of `uses`
+const QUERY_WEIGHT = 0.5;
+// Examples that create their resources and run a mission sequence can be used as they are
+const COMPLETE_BONUS = 0.1;
+
+/**
+ * Finds the resource types and commands a script uses. Returns null when the
+ * code does not look like a GMAT script, e.g. MATLAB or shell snippets.
+ */
+export function analyzeScript(code: string): { resources: string[]; commands: string[] } | null {
+  const resources = new Set<string>();
+  const commands = new Set<string>();
+  let fieldAssignments = 0;
+
+  for (const { text: rawText } of splitStatements(code)) {
+    const text = rawText.replace(/^GMAT\s+/, '');
+    const keyword = text.split(/[\s(;]/)[0];
+
+    if (keyword === 'Create') {
+      const { type } = parseCreate(text);
+      if (type) resources.add(type);
+    } else if (COMMANDS.has(keyword)) {
+      commands.add(keyword);
+    } else if (/^[A-Za-z_]\w*\.[\w.]+\s*=/.test(text)) {
+      fieldAssignments++;
+    }
+  }
+
+  if (resources.size === 0 && commands.size === 0 && fieldAssignments < 2) {
+    return null;
+  }
+  return { resources: Array.from(resources), commands: Array.from(commands) };
+}
+
+/**
+ * Pulls the GMAT script code blocks out of a page's chunks. Takes the chunks
+ * from parseAndChunk, before large sections are split into parts.
+ */
+export function extractExamples(chunks: Chunk[]): ScriptExample[] {
+  const examples: ScriptExample[] = [];
+  const seen = new Set<string>();
+
+  for (const chunk of chunks) {
+    for (const block of splitMarkdownBlocks(chunk.fullContent)) {
+      if (block.kind !== 'code') continue;
+
+      const lines = block.text.split('\n');
+      const code = lines.slice(1, -1).join('\n').trim();
+      const uses = analyzeScript(code);
+      if (!uses || seen.has(code)) continue;
+      seen.add(code);
+
+      examples.push({
+        pageName: chunk.pageName,
+        href: chunk.href,
+        chunkId: chunk.id,
+        headingPath: chunk.headingPath,
+        anchor: chunk.anchor,
+        code,
+        ...uses,
+      });
+    }
+  }
+
+  return examples;
+}
+
+export function saveExamples(cacheDir: string, pages: Record<string, ScriptExample[]>): void {
+  const data: ExampleData = {
+    timestamp: new Date().toISOString(),
+    pages,
+  };
+  const filePath = path.join(cacheDir, EXAMPLES_FILENAME);
+  fs.writeFileSync(filePath + '.tmp', JSON.stringify(data, null, 2));
+  fs.renameSync(filePath + '.tmp', filePath);
+}
+
+export function loadExamples(cacheDir: string): ExampleData | null {
+  const filePath = path.join(cacheDir, EXAMPLES_FILENAME);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as ExampleData;
+}
+
+/**
+ * Query-time view of examples.json: examples in page order, searchable by
+ * the resources and commands they use and by keywords.
+ */
+export class ExampleStore {
+  private examples: ScriptExample[] = [];
+  private index: LexicalIndex;
+
+  constructor(data: ExampleData | null) {
+    const seen = new Set<string>();
+    for (const pageExamples of Object.values(data?.pages || {})) {
+      for (const example of pageExamples) {
+        // Tutorials repeat some snippets from the reference pages
+        if (seen.has(example.code)) continue;
+        seen.add(example.code);
+        this.examples.push(example);
+      }
+    }
+
+    this.index = new LexicalIndex(this.examples.map((example, i) => ({
+      id: String(i),
+      pageName: example.pageName,
+      fullContent: [...(example.headingPath || []), example.code].join('\n'),
+    })));
+  }
+
+  static load(cacheDir: string): ExampleStore {
+    return new ExampleStore(loadExamples(cacheDir));
+  }
+
+  get size(): number {
+    return this.examples.length;
+  }
+
+  /**
+   * Every resource type and command used by at least one example.
+   */
+  listUses(): string[] {
+    const names = new Set<string>();
+    for (const example of this.examples) {
+      example.resources.forEach(name => names.add(name));
+      example.commands.forEach(name => names.add(name));
+    }
+    return Array.from(names).sort();
+  }
+
+  /**
+   * Ranks examples by the share of `uses` they contain, then by relevance to
+   * the query. Examples that use none of `uses` are left out, and with only
+   * a query, so are examples that match none of its terms.
+   */
+  find(options: ExampleQuery): ExampleMatch[] {
+    const uses = options.uses || [];
+    const queryScores = new Map<number, number>();
+    if (options.query) {
+      const matches = this.index.search(options.query, this.examples.length);
+      const maxScore = matches[0]?.score || 1;
+      matches.forEach(match => queryScores.set(match.index, match.score / maxScore));
+    }
+
+    const results: ExampleMatch[] = [];
+    this.examples.forEach((example, i) => {
+      const category = findPage(example.href)?.category;
+      if (options.categories?.length && (!category || !options.categories.includes(category))) return;
+
+      const names = new Set([...example.resources, ...example.commands].map(name => name.toLowerCase()));
+      const matched = uses.filter(name => names.has(name.toLowerCase()));
+      if (uses.length > 0 && matched.length === 0) return;
+      if (uses.length === 0 && !queryScores.has(i)) return;
+
+      const coverage = uses.length > 0 ? matched.length / uses.length : 0;
+      const complete = example.resources.length > 0 && example.commands.includes('BeginMissionSequence');
+      const score = coverage + QUERY_WEIGHT * (queryScores.get(i) || 0) + (complete ? COMPLETE_BONUS : 0);
+      results.push({ example, category, score, matched });
+    });
+
+    // Stable sort keeps page order for equal scores
+    return results.sort((a, b) => b.score - a.score).slice(0, options.topK);
+  }
+}
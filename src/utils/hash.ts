@@ -0,0 +1,5 @@
+import { createHash } from 'crypto';
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
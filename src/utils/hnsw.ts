@@ -0,0 +1,243 @@
+import { dotProduct, Heap } from './vectors.js';
+import { Vector } from './vectorStore.js';
+
+export interface HnswOptions {
+  // Links per node on the upper layers; layer 0 keeps twice as many
+  m: number;
+  // Candidates considered while linking a new node; higher builds slower and finds better links
+  efConstruction: number;
+}
+
+export interface HnswMatch {
+  index: number;
+  score: number;
+}
+
+export const DEFAULT_HNSW_OPTIONS: HnswOptions = { m: 16, efConstruction: 100 };
+// Candidates considered per query; raised to topK when that is larger
+const DEFAULT_EF_SEARCH = 64;
+const MAX_LEVEL = 16;
+const FILE_MAGIC = 0x57534e48; // "HNSW"
+const FILE_VERSION = 1;
+const NO_NODE = 0xffffffff;
+
+interface Scored {
+  node: number;
+  score: number;
+}
+
+export function getHnswEfSearch(): number {
+  const ef = parseInt(process.env.HNSW_EF_SEARCH || String(DEFAULT_EF_SEARCH), 10);
+  return Number.isFinite(ef) && ef > 0 ? ef : DEFAULT_EF_SEARCH;
+}
+
+// mulberry32, so that the same vectors always give the same graph
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hierarchical navigable small world graph over unit vectors, scored by dot
+ * product (Malkov & Yashunin, 2016). The index holds only the graph; the
+ * vectors stay in the store and are passed to every call.
+ */
+export class HnswIndex {
+  private visited: Uint32Array;
+  private visitMark = 0;
+
+  private constructor(
+    readonly count: number,
+    readonly dimensions: number,
+    readonly options: HnswOptions,
+    private entryPoint: number,
+    private maxLevel: number,
+    // links[node][level]: neighbours of the node on that layer
+    private links: ArrayLike<number>[][]
+  ) {
+    this.visited = new Uint32Array(count);
+  }
+
+  /**
+   * Builds the graph by inserting the vectors in order. `vectors` holds
+   * `dimensions` values per vector and must already be normalized.
+   */
+  static build(vectors: Float32Array, dimensions: number, options: HnswOptions = DEFAULT_HNSW_OPTIONS): HnswIndex {
+    const count = dimensions > 0 ? vectors.length / dimensions : 0;
+    const links: number[][][] = [];
+    const index = new HnswIndex(count, dimensions, options, NO_NODE, -1, links);
+    const random = createRandom(count * 31 + dimensions);
+    const levelFactor = 1 / Math.log(options.m);
+    const vectorOf = (node: number) => vectors.subarray(node * dimensions, (node + 1) * dimensions);
+
+    // Keeps candidates that are closer to the base node than to any neighbour
+    // already kept, which links across clusters instead of within one
+    const selectNeighbours = (candidates: Scored[], max: number): number[] => {
+      const selected: number[] = [];
+      const pruned: number[] = [];
+      for (const candidate of candidates) {
+        if (selected.length >= max) break;
+        const candidateVector = vectorOf(candidate.node);
+        if (selected.every(node => dotProduct(candidateVector, vectors, node * dimensions) < candidate.score)) {
+          selected.push(candidate.node);
+        } else {
+          pruned.push(candidate.node);
+        }
+      }
+      return selected.concat(pruned.slice(0, max - selected.length));
+    };
+
+    for (let node = 0; node < count; node++) {
+      const level = Math.min(Math.floor(-Math.log(1 - random()) * levelFactor), MAX_LEVEL);
+      links.push(Array.from({ length: level + 1 }, () => []));
+      if (index.entryPoint === NO_NODE) {
+        index.entryPoint = node;
+        index.maxLevel = level;
+        continue;
+      }
+
+      const query = vectorOf(node);
+      let entry = [index.entryPoint];
+      for (let layer = index.maxLevel; layer > level; layer--) {
+        entry = [index.searchLayer(vectors, query, entry, 1, layer)[0].node];
+      }
+      for (let layer = Math.min(level, index.maxLevel); layer >= 0; layer--) {
+        const found = index.searchLayer(vectors, query, entry, options.efConstruction, layer);
+        const maxLinks = layer === 0 ? options.m * 2 : options.m;
+        links[node][layer] = selectNeighbours(found, options.m);
+
+        for (const neighbour of links[node][layer]) {
+          const neighbourLinks = links[neighbour][layer];
+          neighbourLinks.push(node);
+          if (neighbourLinks.length > maxLinks) {
+            const neighbourVector = vectorOf(neighbour);
+            const scored = neighbourLinks
+              .map(other => ({ node: other, score: dotProduct(neighbourVector, vectors, other * dimensions) }))
+              .sort((a, b) => b.score - a.score);
+            links[neighbour][layer] = selectNeighbours(scored, maxLinks);
+          }
+        }
+        entry = found.map(candidate => candidate.node);
+      }
+      if (level > index.maxLevel) {
+        index.maxLevel = level;
+        index.entryPoint = node;
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Approximate top `k` vectors by dot product with a unit `query`, best
+   * first. Nodes rejected by `accept` are still traversed but not returned,
+   * so a selective filter can yield fewer than `k` matches.
+   */
+  search(vectors: Float32Array, query: Vector, k: number, ef: number = getHnswEfSearch(), accept?: (index: number) => boolean): HnswMatch[] {
+    if (this.entryPoint === NO_NODE || k <= 0) return [];
+    let entry = [this.entryPoint];
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = [this.searchLayer(vectors, query, entry, 1, layer)[0].node];
+    }
+    return this.searchLayer(vectors, query, entry, Math.max(ef, k), 0)
+      .filter(candidate => !accept || accept(candidate.node))
+      .slice(0, k)
+      .map(candidate => ({ index: candidate.node, score: candidate.score }));
+  }
+
+  // Best-first search of one layer, keeping the `ef` best nodes found; best first
+  private searchLayer(vectors: Float32Array, query: Vector, entry: number[], ef: number, layer: number): Scored[] {
+    const { dimensions, visited } = this;
+    // Marks from earlier searches are told apart by their value
+    if (++this.visitMark === NO_NODE) {
+      visited.fill(0);
+      this.visitMark = 1;
+    }
+    const mark = this.visitMark;
+
+    const candidates = new Heap<Scored>((a, b) => a.score > b.score);
+    const best = new Heap<Scored>((a, b) => a.score < b.score);
+    for (const node of entry) {
+      if (visited[node] === mark) continue;
+      visited[node] = mark;
+      const scored = { node, score: dotProduct(query, vectors, node * dimensions) };
+      candidates.push(scored);
+      best.push(scored);
+      if (best.size > ef) best.pop();
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      if (best.size >= ef && current.score < best.peek()!.score) break;
+
+      const neighbours = this.links[current.node][layer] || [];
+      for (let i = 0; i < neighbours.length; i++) {
+        const node = neighbours[i];
+        if (visited[node] === mark) continue;
+        visited[node] = mark;
+        const score = dotProduct(query, vectors, node * dimensions);
+        if (best.size < ef || score > best.peek()!.score) {
+          candidates.push({ node, score });
+          best.push({ node, score });
+          if (best.size > ef) best.pop();
+        }
+      }
+    }
+    return best.toArray().sort((a, b) => b.score - a.score);
+  }
+
+  /*
+   * File layout, all little-endian uint32:
+   *   magic, version, count, dimensions, m, efConstruction, entryPoint, maxLevel + 1
+   *   then per node: its number of layers, and per layer the neighbour count and ids
+   */
+  serialize(): Buffer {
+    const values: number[] = [
+      FILE_MAGIC, FILE_VERSION, this.count, this.dimensions,
+      this.options.m, this.options.efConstruction, this.entryPoint, this.maxLevel + 1,
+    ];
+    for (const layers of this.links) {
+      values.push(layers.length);
+      for (const neighbours of layers) {
+        values.push(neighbours.length, ...Array.from(neighbours));
+      }
+    }
+    const data = Uint32Array.from(values);
+    return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  static deserialize(buffer: Buffer): HnswIndex {
+    if (buffer.byteLength % 4 !== 0 || buffer.byteLength < 32) {
+      throw new Error('Invalid HNSW index file: truncated');
+    }
+    // Typed array views need 4-byte alignment
+    const aligned = buffer.byteOffset % 4 === 0 ? buffer : Buffer.from(buffer);
+    const data = new Uint32Array(aligned.buffer, aligned.byteOffset, aligned.byteLength / 4);
+    if (data[0] !== FILE_MAGIC || data[1] !== FILE_VERSION) {
+      throw new Error('Invalid HNSW index file: unknown format');
+    }
+
+    const [count, dimensions, m, efConstruction, entryPoint, levels] = data.subarray(2, 8);
+    const links: Uint32Array[][] = [];
+    let offset = 8;
+    for (let node = 0; node < count; node++) {
+      const layers: Uint32Array[] = [];
+      const layerCount = data[offset++];
+      for (let layer = 0; layer < layerCount; layer++) {
+        const degree = data[offset++];
+        layers.push(data.subarray(offset, offset + degree));
+        offset += degree;
+      }
+      links.push(layers);
+    }
+    if (offset !== data.length) {
+      throw new Error('Invalid HNSW index file: size does not match its graph');
+    }
+    return new HnswIndex(count, dimensions, { m, efConstruction }, entryPoint, levels - 1, links);
+  }
+}
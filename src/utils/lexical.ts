@@ -0,0 +1,120 @@
+import { TopK } from './vectors.js';
+
+export interface LexicalDocument {
+  id: string;
+  pageName: string;
+  fullContent: string;
+}
+
+export interface LexicalMatch {
+  index: number;
+  score: number;
+}
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Page names are short and highly descriptive, so their terms count extra
+const PAGE_NAME_WEIGHT = 3;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'i', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'what',
+  'when', 'where', 'which', 'with', 'you',
+]);
+
+/**
+ * Splits text into search terms. GMAT identifiers are kept whole
+ * (`sat.earth.rmag`, `beginfiniteburn`) and are also indexed by their
+ * dot and camelCase parts, so both exact and partial matches score.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const words = text.match(/[A-Za-z0-9_]+(?:\.[A-Za-z0-9_]+)*/g) || [];
+
+  for (const word of words) {
+    const lower = word.toLowerCase();
+    if (!STOP_WORDS.has(lower)) {
+      terms.push(lower);
+    }
+
+    const parts = word
+      .split('.')
+      .flatMap(part => part.split(/(?<=[a-z0-9])(?=[A-Z])/))
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 1 && !STOP_WORDS.has(part));
+    if (parts.length > 1) {
+      terms.push(...parts);
+    }
+  }
+
+  return terms;
+}
+
+export class LexicalIndex {
+  private postings = new Map<string, Array<{ doc: number; tf: number }>>();
+  private docLengths: number[] = [];
+  private avgDocLength = 0;
+
+  constructor(documents: LexicalDocument[]) {
+    let totalLength = 0;
+
+    documents.forEach((document, doc) => {
+      const termCounts = new Map<string, number>();
+      const addTerms = (terms: string[], weight: number) => {
+        for (const term of terms) {
+          termCounts.set(term, (termCounts.get(term) || 0) + weight);
+        }
+      };
+
+      const contentTerms = tokenize(document.fullContent);
+      const nameTerms = tokenize(document.pageName);
+      addTerms(contentTerms, 1);
+      addTerms(nameTerms, PAGE_NAME_WEIGHT);
+
+      const length = contentTerms.length + nameTerms.length * PAGE_NAME_WEIGHT;
+      this.docLengths.push(length);
+      totalLength += length;
+
+      for (const [term, tf] of termCounts) {
+        let list = this.postings.get(term);
+        if (!list) {
+          list = [];
+          this.postings.set(term, list);
+        }
+        list.push({ doc, tf });
+      }
+    });
+
+    this.avgDocLength = documents.length > 0 ? totalLength / documents.length : 0;
+  }
+
+  get size(): number {
+    return this.docLengths.length;
+  }
+
+  search(query: string, topK: number, accept?: (index: number) => boolean): LexicalMatch[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const scores = new Map<number, number>();
+    const totalDocs = this.docLengths.length;
+
+    for (const term of queryTerms) {
+      const list = this.postings.get(term);
+      if (!list) continue;
+
+      const idf = Math.log(1 + (totalDocs - list.length + 0.5) / (list.length + 0.5));
+      for (const { doc, tf } of list) {
+        if (accept && !accept(doc)) continue;
+        const lengthNorm = 1 - B + B * (this.docLengths[doc] / (this.avgDocLength || 1));
+        const termScore = idf * (tf * (K1 + 1)) / (tf + K1 * lengthNorm);
+        scores.set(doc, (scores.get(doc) || 0) + termScore);
+      }
+    }
+
+    const top = new TopK<number>(topK);
+    for (const [index, score] of scores) {
+      top.push(index, score);
+    }
+    return top.results().map(({ item, score }) => ({ index: item, score }));
+  }
+}
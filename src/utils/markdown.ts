@@ -0,0 +1,103 @@
+export type ContentKind = 'prose' | 'table' | 'code';
+
+export interface MarkdownBlock {
+  kind: ContentKind;
+  text: string;
+}
+
+export const CODE_FENCE = /^(`{3,}|~{3,})/;
+const TABLE_ROW = /^\s*\|/;
+const TABLE_SEPARATOR = /^\s*\|(\s*:?-+:?\s*\|)+\s*$/;
+
+/**
+ * Splits Markdown into top-level blocks: fenced code blocks, tables and
+ * prose paragraphs (including headings and lists). Blank lines between
+ * blocks are dropped.
+ */
+export function splitMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const lines = markdown.split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let prose: string[] = [];
+
+  const flushProse = () => {
+    if (prose.length > 0) {
+      blocks.push({ kind: 'prose', text: prose.join('\n') });
+      prose = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(CODE_FENCE);
+    if (fence) {
+      flushProse();
+      // An unclosed fence runs to the end of the text
+      let end = i + 1;
+      while (end < lines.length && !lines[end].startsWith(fence[1])) end++;
+      blocks.push({ kind: 'code', text: lines.slice(i, end + 1).join('\n') });
+      i = end;
+    } else if (TABLE_ROW.test(line)) {
+      flushProse();
+      let end = i;
+      while (end + 1 < lines.length && TABLE_ROW.test(lines[end + 1])) end++;
+      blocks.push({ kind: 'table', text: lines.slice(i, end + 1).join('\n') });
+      i = end;
+    } else if (line.trim() === '') {
+      flushProse();
+    } else {
+      prose.push(line);
+    }
+  }
+  flushProse();
+
+  return blocks;
+}
+
+/**
+ * The kind that makes up most of the text.
+ */
+export function getContentKind(markdown: string): ContentKind {
+  const sizes: Record<ContentKind, number> = { prose: 0, table: 0, code: 0 };
+  for (const block of splitMarkdownBlocks(markdown)) {
+    sizes[block.kind] += block.text.length;
+  }
+  return (Object.keys(sizes) as ContentKind[]).reduce((best, kind) => sizes[kind] > sizes[best] ? kind : best, 'prose');
+}
+
+/**
+ * Header and separator rows of a Markdown table, or null if it has none.
+ */
+export function getTableHeader(table: string): string | null {
+  const lines = table.split('\n');
+  return lines.length >= 2 && TABLE_SEPARATOR.test(lines[1]) ? lines.slice(0, 2).join('\n') : null;
+}
+
+/**
+ * Cells of a Markdown table row, with escaped pipes restored.
+ */
+export function splitTableRow(row: string): string[] {
+  return row.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.replace(/\\\|/g, '|').trim());
+}
+
+/**
+ * Appends a part that starts by continuing the table or code block the
+ * previous part ended with, dropping its repeated table header or the fences
+ * that were added to close and reopen the code block.
+ */
+export function joinContinuedPart(previous: string, next: string, continuation?: ContentKind): string {
+  if (continuation === 'table') {
+    const header = getTableHeader(next);
+    if (header) {
+      return `${previous}\n${next.slice(header.length + 1)}`;
+    }
+  } else if (continuation === 'code') {
+    const previousLines = previous.split('\n');
+    const nextLines = next.split('\n');
+    if (CODE_FENCE.test(previousLines[previousLines.length - 1]) && CODE_FENCE.test(nextLines[0])) {
+      return [...previousLines.slice(0, -1), ...nextLines.slice(1)].join('\n');
+    }
+  }
+  return `${previous}\n\n${next}`;
+}
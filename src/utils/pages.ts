@@ -1,12 +1,75 @@
 // Toggle between test and full pages
 const USE_TEST_PAGES = process.env.NODE_ENV === 'test';
 
+import * as fs from 'fs';
 import pagesData from '../../pages.json' with { type: "json" };
 import testPagesData from '../../pages-test.json' with { type: "json" };
 
 export interface Page {
   name: string;
   href: string;
+  // Part of the manual the page belongs to, e.g. "Resources" or "Tutorials"
+  category?: string;
+  tags?: string[];
 }
 
-export const PAGES: Page[] = USE_TEST_PAGES ? testPagesData : pagesData;
\ No newline at end of file
+// A generated manifest, e.g. pages.crawled.json from a crawl, replaces pages.json
+const PAGES_FILE = process.env.PAGES_FILE;
+
+export let PAGES: Page[] = PAGES_FILE
+  ? JSON.parse(fs.readFileSync(PAGES_FILE, 'utf8')) as Page[]
+  : USE_TEST_PAGES ? testPagesData : pagesData;
+
+/**
+ * Replaces the page list for the rest of the process, e.g. with crawl results.
+ */
+export function setPages(pages: Page[]): void {
+  PAGES = pages;
+}
+
+export const BASE_URL = process.env.BASE_URL || 'https://documentation.help/gmat/';
+
+export function getPageUrl(href: string): string {
+  return `${BASE_URL}${href}`;
+}
+
+export function findPage(href: string): Page | undefined {
+  return PAGES.find(page => page.href === href);
+}
+
+export function findPageName(href: string): string {
+  return findPage(href)?.name || href.replace('.html', '');
+}
+
+export interface PageSection {
+  // URL-friendly form of the category, e.g. "using-gmat"
+  slug: string;
+  category: string;
+  pages: Page[];
+}
+
+const UNCATEGORIZED = 'Other';
+
+export function getCategorySlug(category: string): string {
+  return category.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export function getPageCategories(): string[] {
+  return Array.from(new Set(PAGES.map(page => page.category || UNCATEGORIZED)));
+}
+
+/**
+ * Matches a category by name or slug, case-insensitively.
+ */
+export function findCategory(name: string): string | undefined {
+  const slug = getCategorySlug(name);
+  return getPageCategories().find(category => getCategorySlug(category) === slug);
+}
+
+export function getPageSections(): PageSection[] {
+  return getPageCategories().map(category => ({
+    slug: getCategorySlug(category),
+    category,
+    pages: PAGES.filter(page => (page.category || UNCATEGORIZED) === category),
+  }));
+}
@@ -1,14 +1,47 @@
 import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
 import TurndownService from 'turndown';
-import { PAGES } from './pages.js';
+import { findPage, findPageName } from './pages.js';
+import { CODE_FENCE, ContentKind, getContentKind } from './markdown.js';
 
 export interface Chunk {
   id: string;
   pageName: string;
   href: string;
   fullContent: string;
+  // Text of the heading the section starts with
+  heading?: string;
+  // Page name followed by the enclosing headings, e.g. ["Spacecraft", "Fields", "Remarks"]
+  headingPath?: string[];
+  // 1-4 for h1-h4, 0 for pages without headings
+  headingLevel?: number;
+  // Position of the section within its page
+  order?: number;
+  // id or name of the section in the source HTML, for deep links
+  anchor?: string;
+  // What most of the section is made of
+  kind?: ContentKind;
+  // Set on a split part that continues the table (header repeated) or code
+  // block (fence reopened) that the previous part ended with
+  continuation?: ContentKind;
+  // Set on the parts splitLargeChunk cuts a long section into: the id of the
+  // chunk that was split and the position of the part within it
+  sectionId?: string;
+  part?: number;
+  category?: string;
+  tags?: string[];
+  // Hash of the text that was embedded, used to reuse embeddings across setup runs
+  contentHash?: string;
 }
 
+// Bump whenever what setup extracts from a page changes (chunks or reference
+// tables) so incremental setup re-parses unchanged pages
+export const PARSER_VERSION = 9;
+
+export const BREADCRUMB_SEPARATOR = ' › ';
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4';
+
 const turndownService = new TurndownService({
   headingStyle: 'atx',
   codeBlockStyle: 'fenced',
@@ -25,11 +58,80 @@ turndownService.addRule('preserveLineBreaks', {
   }
 });
 
-function findPageName(href: string): string {
-  const page = PAGES.find((p: { href: string }) => p.href === href);
-  return page?.name || href.replace('.html', '');
+// DocBook puts script examples in <pre class="programlisting"> without a
+// <code> element, which turndown would not fence
+turndownService.addRule('preformatted', {
+  filter: (node: any) => node.nodeName === 'PRE' && node.firstChild?.nodeName !== 'CODE',
+  replacement: (_content: string, node: any) => {
+    const code = (node.textContent || '').replace(/\n+$/, '');
+    const fence = code.includes('```') ? '~~~' : '```';
+    return `\n\n${fence}\n${code}\n${fence}\n\n`;
+  }
+});
+
+// Tables inside table cells, like the property lists in field tables, cannot
+// be Markdown tables and are flattened to "Name: value; ..." instead
+function isInNestedTable(node: any): boolean {
+  let table = node;
+  while (table && table.nodeName !== 'TABLE') table = table.parentNode;
+  for (let parent = table?.parentNode; parent; parent = parent.parentNode) {
+    if (parent.nodeName === 'TD' || parent.nodeName === 'TH') return true;
+  }
+  return false;
 }
 
+function getColspan(cell: any): number {
+  return parseInt(cell.getAttribute('colspan') || '1', 10) || 1;
+}
+
+turndownService.addRule('tableCell', {
+  filter: ['th', 'td'],
+  replacement: (content: string, node: any) => {
+    const text = content.replace(/\s*\n\s*/g, ' ').trim();
+    if (isInNestedTable(node)) {
+      return text + (node.nextSibling ? ': ' : '');
+    }
+    return ` ${text.replace(/\|/g, '\\|')} |` + ' |'.repeat(getColspan(node) - 1);
+  }
+});
+
+turndownService.addRule('tableRow', {
+  filter: 'tr',
+  replacement: (content: string, node: any) => {
+    if (isInNestedTable(node)) {
+      return `${content.trim()}; `;
+    }
+    let row = `|${content}\n`;
+    // Markdown tables need a header; the first row serves as one
+    let table = node.parentNode;
+    while (table.nodeName !== 'TABLE') table = table.parentNode;
+    if (table.querySelector('tr') === node) {
+      const columns = Array.from(node.childNodes as any[])
+        .filter(cell => cell.nodeName === 'TD' || cell.nodeName === 'TH')
+        .reduce((sum, cell) => sum + getColspan(cell), 0);
+      row += `|${' --- |'.repeat(columns)}\n`;
+    }
+    return row;
+  }
+});
+
+turndownService.addRule('table', {
+  filter: 'table',
+  replacement: (content: string, node: any) => isInNestedTable(node)
+    ? ` ${content.trim().replace(/;$/, '')} `
+    : `\n\n${content.trim()}\n\n`
+});
+
+turndownService.addRule('tableSection', {
+  filter: ['thead', 'tbody', 'tfoot'],
+  replacement: (content: string) => content
+});
+
+turndownService.addRule('tableColumns', {
+  filter: ['colgroup', 'col'],
+  replacement: () => ''
+});
+
 function generateChunkId(href: string, index: number, heading?: string): string {
   const baseId = href.replace('.html', '');
   if (heading) {
@@ -42,11 +144,100 @@ function generateChunkId(href: string, index: number, heading?: string): string
   return `${baseId}#chunk_${index}`;
 }
 
+export function formatHeadingPath(headingPath: string[]): string {
+  return headingPath.join(BREADCRUMB_SEPARATOR);
+}
+
+/**
+ * The anchor a link to this heading should use. DocBook output puts it on
+ * the heading, on an <a name> inside or just before it, or on the enclosing
+ * section element below `root`.
+ */
+function findAnchor(heading: cheerio.Cheerio<AnyNode>, root: cheerio.Cheerio<AnyNode>): string | undefined {
+  const own = heading.attr('id') ||
+    heading.find('a[id]').first().attr('id') ||
+    heading.find('a[name]').first().attr('name');
+  if (own) return own;
+
+  const previous = heading.prev();
+  if (previous.is('a[id], a[name]') && previous.text().trim() === '') {
+    return previous.attr('id') || previous.attr('name');
+  }
+
+  // Enclosing elements whose first heading is this one, e.g. <div class="refsection" id="...">
+  let ancestor = heading.parent();
+  for (let depth = 0; depth < 4 && ancestor.length > 0 && ancestor.get(0) !== root.get(0); depth++) {
+    if (ancestor.find(HEADING_SELECTOR).first().get(0) !== heading.get(0)) break;
+    const id = ancestor.attr('id') || ancestor.children('a[name]').first().attr('name');
+    if (id) return id;
+    ancestor = ancestor.parent();
+  }
+  return undefined;
+}
+
+/**
+ * The heading and everything after it up to the next heading, in document
+ * order below `root`. A container holding the next heading is entered, so
+ * its content before that heading stays in this section. When the heading
+ * sits in a container, collection goes on after the container ends.
+ */
+function collectSection($: cheerio.CheerioAPI, heading: cheerio.Cheerio<AnyNode>, root: cheerio.Cheerio<AnyNode>): cheerio.Cheerio<AnyNode> {
+  const nodes: AnyNode[] = [heading.clone().get(0)!];
+  let reachedHeading = false;
+
+  const collect = (siblings: cheerio.Cheerio<AnyNode>): void => {
+    for (const node of siblings.toArray()) {
+      const element = $(node);
+      if (element.is(HEADING_SELECTOR)) {
+        reachedHeading = true;
+        return;
+      }
+      if (element.find(HEADING_SELECTOR).length > 0) {
+        collect(element.contents());
+        if (reachedHeading) return;
+      } else {
+        nodes.push(node);
+      }
+    }
+  };
+
+  collect(heading.nextAll());
+  for (let parent = heading.parent(); !reachedHeading && parent.length > 0 && parent.get(0) !== root.get(0); parent = parent.parent()) {
+    collect(parent.nextAll());
+  }
+  return $(nodes);
+}
+
+/**
+ * Collapses runs of spaces and blank lines while keeping the line structure
+ * of tables and lists, and fenced code blocks exactly as they are.
+ */
 function cleanText(text: string): string {
-  return text
-    .replace(/\s+/g, ' ')
-    .replace(/\n\s*\n\s*\n/g, '\n\n')
-    .trim();
+  const lines: string[] = [];
+  let fence: string | null = null;
+
+  for (const rawLine of text.split('\n')) {
+    const marker = rawLine.trim().match(CODE_FENCE)?.[1];
+    if (fence) {
+      if (marker && rawLine.trim().startsWith(fence)) fence = null;
+      lines.push(rawLine.trimEnd());
+      continue;
+    }
+    if (marker) {
+      fence = marker;
+      lines.push(rawLine.trim());
+      continue;
+    }
+
+    const line = rawLine.replace(/\u00a0/g, ' ').replace(/(\S)[ \t]+/g, '$1 ').trimEnd();
+    if (line.trim() === '') {
+      if (lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+      continue;
+    }
+    lines.push(line);
+  }
+
+  return lines.join('\n').trim();
 }
 
 export function parseAndChunk(html: string, href: string): Chunk[] {
@@ -62,10 +253,24 @@ export function parseAndChunk(html: string, href: string): Chunk[] {
   }
   
   const pageName = findPageName(href);
+  const page = findPage(href);
+  // Category and tags from pages.json, so search can filter by them
+  const pageMetadata = { category: page?.category, tags: page?.tags };
   const chunks: Chunk[] = [];
+  const usedIds = new Set<string>();
+  
+  // Headings like "Remarks" can repeat within a page; ids must stay unique
+  function uniqueId(id: string): string {
+    let candidate = id;
+    for (let n = 2; usedIds.has(candidate); n++) {
+      candidate = `${id}_${n}`;
+    }
+    usedIds.add(candidate);
+    return candidate;
+  }
   
   // Find all headings to use as chunk boundaries
-  const headings = contentElement.find('h1, h2, h3, h4').toArray();
+  const headings = contentElement.find(HEADING_SELECTOR).toArray();
   
   if (headings.length === 0) {
     // No headings found - treat entire page as one chunk
@@ -75,36 +280,38 @@ export function parseAndChunk(html: string, href: string): Chunk[] {
         id: generateChunkId(href, 0),
         pageName,
         href,
+        ...pageMetadata,
         fullContent,
+        kind: getContentKind(fullContent),
+        headingPath: [pageName],
+        headingLevel: 0,
+        order: 0,
       });
     }
     return chunks;
   }
   
+  // Enclosing headings of the current one, outermost first
+  const headingStack: Array<{ level: number; text: string }> = [];
+  
   // Process content by heading sections
   for (let i = 0; i < headings.length; i++) {
     const heading = $(headings[i]);
-    const headingText = heading.text().trim();
-    
-    // Collect all content until the next heading of same or higher level
-    let content = heading.clone();
-    let nextElement = heading.next();
+    const headingText = heading.text().replace(/\s+/g, ' ').trim();
+    const headingLevel = parseInt(headings[i].tagName.slice(1), 10);
     
-    while (nextElement.length > 0) {
-      const nextTag = nextElement.get(0)?.tagName?.toLowerCase();
-      
-      // Stop if we hit another heading of same or higher level
-      if (nextTag && /^h[1-6]$/.test(nextTag)) {
-        const currentLevel = parseInt(headings[i].tagName.charAt(1));
-        const nextLevel = parseInt(nextTag.charAt(1));
-        if (nextLevel <= currentLevel) {
-          break;
-        }
-      }
-      
-      content = content.add(nextElement);
-      nextElement = nextElement.next();
+    while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= headingLevel) {
+      headingStack.pop();
+    }
+    if (headingText) {
+      headingStack.push({ level: headingLevel, text: headingText });
     }
+    // The page title heading would only repeat the page name
+    const headingPath = [pageName, ...headingStack.map(h => h.text).filter(text => text !== pageName)];
+    
+    // Collect content until the next heading. Subsections get chunks of their
+    // own, so sections never overlap and a page can be rebuilt from its chunks.
+    const content = collectSection($, heading, contentElement);
     
     // Convert to markdown and clean
     const markdownContent = turndownService.turndown(content.toString());
@@ -112,10 +319,17 @@ export function parseAndChunk(html: string, href: string): Chunk[] {
     
     if (fullContent.length > 0) {
       chunks.push({
-        id: generateChunkId(href, i, headingText),
+        id: uniqueId(generateChunkId(href, i, headingText)),
         pageName,
         href,
+        ...pageMetadata,
         fullContent,
+        kind: getContentKind(fullContent),
+        heading: headingText || undefined,
+        headingPath,
+        headingLevel,
+        order: chunks.length,
+        anchor: findAnchor(heading, contentElement),
       });
     }
   }
@@ -128,7 +342,12 @@ export function parseAndChunk(html: string, href: string): Chunk[] {
         id: generateChunkId(href, 0),
         pageName,
         href,
+        ...pageMetadata,
         fullContent,
+        kind: getContentKind(fullContent),
+        headingPath: [pageName],
+        headingLevel: 0,
+        order: 0,
       });
     }
   }
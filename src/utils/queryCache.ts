@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EmbeddingProvider, EmbeddingProviderInfo } from './embeddingProvider.js';
+
+export interface QueryCacheConfig {
+  // Maximum number of query embeddings kept; 0 disables caching
+  maxEntries: number;
+  // Directory for the persistent cache; in-memory only when unset
+  persistDir?: string;
+}
+
+export interface QueryCacheStats {
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  // Lookups that joined a request already in flight for the same text
+  coalesced: number;
+  persistent: boolean;
+}
+
+export const QUERY_CACHE_DIRNAME = 'query-cache';
+const DEFAULT_MAX_ENTRIES = 1000;
+
+interface PersistedQuery {
+  text: string;
+  embedding: number[];
+}
+
+export function getQueryCacheConfig(cacheDir: string): QueryCacheConfig {
+  const maxEntries = parseInt(process.env.QUERY_CACHE_SIZE || String(DEFAULT_MAX_ENTRIES), 10);
+  const persist = /^(1|true|yes)$/i.test(process.env.QUERY_CACHE_PERSIST || '');
+  return {
+    maxEntries: Number.isFinite(maxEntries) && maxEntries > 0 ? maxEntries : 0,
+    persistDir: persist ? path.join(cacheDir, QUERY_CACHE_DIRNAME) : undefined,
+  };
+}
+
+function getCacheFileName(info: EmbeddingProviderInfo): string {
+  const key = [info.provider, info.model, info.dimensions ?? 'default'].join('_');
+  return key.replace(/[^A-Za-z0-9._-]+/g, '-') + '.jsonl';
+}
+
+function normalizeQuery(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Wraps an embedding provider with an LRU cache of text -> embedding.
+ * Texts already being embedded share the pending request, and the cache can
+ * be persisted per provider/model so it survives restarts.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  readonly info: EmbeddingProviderInfo;
+  private entries = new Map<string, number[]>();
+  private inFlight = new Map<string, Promise<number[]>>();
+  private filePath: string | null = null;
+  private hits = 0;
+  private misses = 0;
+  private coalesced = 0;
+
+  constructor(private provider: EmbeddingProvider, private config: QueryCacheConfig) {
+    this.info = provider.info;
+    if (config.persistDir && config.maxEntries > 0) {
+      this.filePath = path.join(config.persistDir, getCacheFileName(provider.info));
+      this.loadPersisted();
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (this.config.maxEntries === 0) {
+      return this.provider.embed(texts);
+    }
+
+    const keys = texts.map(normalizeQuery);
+    const pending = new Map<string, Promise<number[]>>();
+    const missing: string[] = [];
+
+    for (const key of keys) {
+      if (pending.has(key)) continue;
+
+      const cached = this.entries.get(key);
+      if (cached) {
+        this.hits++;
+        this.touch(key, cached);
+        pending.set(key, Promise.resolve(cached));
+      } else if (this.inFlight.has(key)) {
+        this.coalesced++;
+        pending.set(key, this.inFlight.get(key)!);
+      } else {
+        this.misses++;
+        missing.push(key);
+      }
+    }
+
+    if (missing.length > 0) {
+      const request = this.provider.embed(missing);
+      missing.forEach((key, i) => {
+        const promise = request.then(embeddings => {
+          this.store(key, embeddings[i]);
+          return embeddings[i];
+        });
+        this.inFlight.set(key, promise);
+        pending.set(key, promise);
+        // Failed requests are not cached, so the next lookup retries
+        promise.then(() => this.inFlight.delete(key), () => this.inFlight.delete(key));
+      });
+    }
+
+    return Promise.all(keys.map(key => pending.get(key)!));
+  }
+
+  getStats(): QueryCacheStats {
+    return {
+      size: this.entries.size,
+      maxEntries: this.config.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      coalesced: this.coalesced,
+      persistent: this.filePath !== null,
+    };
+  }
+
+  private touch(key: string, embedding: number[]): void {
+    // Maps iterate in insertion order, so re-inserting marks the entry most recently used
+    this.entries.delete(key);
+    this.entries.set(key, embedding);
+  }
+
+  private store(key: string, embedding: number[]): void {
+    this.touch(key, embedding);
+    while (this.entries.size > this.config.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+
+    if (this.filePath) {
+      try {
+        const record: PersistedQuery = { text: key, embedding: Array.from(embedding) };
+        fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n');
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to persist query embedding: ${errorMessage}`);
+      }
+    }
+  }
+
+  // An unreadable or read-only cache directory leaves the cache in memory only
+  private loadPersisted(): void {
+    const filePath = this.filePath!;
+    try {
+      this.readPersisted(filePath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Query embedding cache is in memory only; cannot use ${filePath}: ${errorMessage}`);
+      this.filePath = null;
+    }
+  }
+
+  private readPersisted(filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n').filter(line => line.trim().length > 0);
+    for (const line of lines) {
+      try {
+        const record = JSON.parse(line) as PersistedQuery;
+        this.touch(record.text, record.embedding);
+      } catch {
+        // Partially written line from an interrupted process
+      }
+    }
+    while (this.entries.size > this.config.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+
+    // The file is append-only while running; compact it once it holds many stale lines
+    if (lines.length > this.entries.size * 2) {
+      const records = Array.from(this.entries, ([text, embedding]) => JSON.stringify({ text, embedding }));
+      fs.writeFileSync(filePath + '.tmp', records.join('\n') + (records.length > 0 ? '\n' : ''));
+      fs.renameSync(filePath + '.tmp', filePath);
+    }
+  }
+}
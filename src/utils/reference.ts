@@ -0,0 +1,296 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import * as fs from 'fs';
+import * as path from 'path';
+import { findPageName } from './pages.js';
+
+export type ReferenceKind = 'resource' | 'command';
+
+export interface FieldInfo {
+  name: string;
+  description: string;
+  dataType?: string;
+  allowedValues?: string;
+  // Only set for enumerated and boolean fields, where the allowed values are a closed set
+  enumValues?: string[];
+  access?: string;
+  defaultValue?: string;
+  units?: string;
+  interfaces?: string[];
+  // Any other rows of the field's property table, e.g. "Dependencies"
+  attributes?: Record<string, string>;
+  pageName: string;
+  href: string;
+}
+
+export interface ReferenceEntry {
+  name: string;
+  kind: ReferenceKind;
+  pages: Array<{ pageName: string; href: string }>;
+  fields: FieldInfo[];
+}
+
+// Per-page extraction results, kept separately so incremental setup can reuse them
+export interface PageReference {
+  name: string;
+  kind: ReferenceKind;
+  pageName: string;
+  href: string;
+  fields: FieldInfo[];
+}
+
+export interface ReferenceData {
+  timestamp: string;
+  pages: Record<string, PageReference[]>;
+}
+
+export const REFERENCE_FILENAME = 'reference.json';
+
+// Properties that hold the text of a property table row as it is
+type TextAttributeKey = keyof Pick<FieldInfo, 'dataType' | 'allowedValues' | 'access' | 'defaultValue' | 'units'>;
+
+const ATTRIBUTE_KEYS: Record<string, TextAttributeKey | 'interfaces'> = {
+  'data type': 'dataType',
+  'allowed values': 'allowedValues',
+  'access': 'access',
+  'default value': 'defaultValue',
+  'default': 'defaultValue',
+  'units': 'units',
+  'unit': 'units',
+  'interfaces': 'interfaces',
+};
+
+/**
+ * Whether a table with these first two column headers lists the fields of a
+ * resource ("Field") or the options of a command ("Option").
+ */
+export function isFieldTableHeader(firstHeader: string, secondHeader: string): boolean {
+  return /^(field|option)s?$/i.test(firstHeader) && /description/i.test(secondHeader);
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function parseEnumValues($: cheerio.CheerioAPI, valueCell: cheerio.Cheerio<Element>, dataType: string | undefined): string[] | undefined {
+  if (!dataType || !/enumeration|boolean/i.test(dataType)) {
+    return undefined;
+  }
+
+  // Values are usually marked up individually, e.g. <span class="guilabel">VNB</span>
+  const marked = valueCell.find('.guilabel, .literal, code').toArray()
+    .map(el => normalizeText($(el).text()))
+    .filter(value => value.length > 0);
+  if (marked.length > 0) {
+    return Array.from(new Set(marked));
+  }
+
+  const values = normalizeText(valueCell.text())
+    .split(/,|\bor\b/)
+    .map(value => value.trim())
+    .filter(value => value.length > 0 && !/\s/.test(value));
+  if (values.length > 0) {
+    return values;
+  }
+  return /boolean/i.test(dataType) ? ['true', 'false'] : undefined;
+}
+
+/**
+ * The script type a page documents. Sub-pages such as "Spacecraft Orbit
+ * State" document fields of the Spacecraft resource.
+ */
+function getReferenceName(pageName: string): string {
+  return pageName.split(' ')[0].replace(/\(\)$/, '');
+}
+
+/**
+ * Extracts the Field/Option tables of Resource and Command reference pages.
+ * Each row holds the field name and a description cell that contains a
+ * nested property table (Data Type, Allowed Values, Default Value, ...).
+ */
+export function extractReference(html: string, href: string): PageReference[] {
+  const $ = cheerio.load(html);
+  const pageName = findPageName(href);
+  const references: PageReference[] = [];
+
+  $('table').each((_, tableEl) => {
+    const table = $(tableEl);
+    let headerCells = table.children('thead').children('tr').first().children('th');
+    if (headerCells.length === 0) {
+      headerCells = table.children('tbody').children('tr').first().children('th');
+    }
+    if (headerCells.length < 2) return;
+
+    const firstHeader = normalizeText(headerCells.eq(0).text());
+    const secondHeader = normalizeText(headerCells.eq(1).text());
+    if (!isFieldTableHeader(firstHeader, secondHeader)) return;
+
+    const kind: ReferenceKind = /^field/i.test(firstHeader) ? 'resource' : 'command';
+    const fields: FieldInfo[] = [];
+    const rows = table.children('tbody').children('tr').add(table.children('tr'));
+
+    rows.each((_, rowEl) => {
+      const cells = $(rowEl).children('td');
+      if (cells.length < 2) return;
+
+      const name = normalizeText(cells.eq(0).text());
+      if (!name) return;
+
+      const detailsCell = cells.eq(1);
+      const field: FieldInfo = { name, description: '', pageName, href };
+      const attributes: Record<string, string> = {};
+
+      const properties = detailsCell.find('table tr').toArray()
+        .map(propertyRow => $(propertyRow).children('td'))
+        .filter(propertyCells => propertyCells.length >= 2)
+        .map(propertyCells => ({
+          label: normalizeText(propertyCells.eq(0).text()),
+          valueCell: propertyCells.eq(1),
+        }));
+      // Enumerations are recognized by their data type, which may come after Allowed Values
+      const dataTypeProperty = properties.find(({ label }) => ATTRIBUTE_KEYS[label.toLowerCase()] === 'dataType');
+      const dataType = dataTypeProperty ? normalizeText(dataTypeProperty.valueCell.text()) : undefined;
+
+      for (const { label, valueCell } of properties) {
+        const value = normalizeText(valueCell.text());
+        const key = ATTRIBUTE_KEYS[label.toLowerCase()];
+
+        if (key === 'interfaces') {
+          field.interfaces = value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+        } else if (key === 'allowedValues') {
+          field.allowedValues = value;
+          const enumValues = parseEnumValues($, valueCell, dataType);
+          if (enumValues) {
+            field.enumValues = enumValues;
+          }
+        } else if (key) {
+          field[key] = value;
+        } else if (label) {
+          attributes[label] = value;
+        }
+      }
+
+      const description = detailsCell.clone();
+      description.find('table, .variablelist, .informaltable').remove();
+      field.description = normalizeText(description.text());
+      if (Object.keys(attributes).length > 0) {
+        field.attributes = attributes;
+      }
+
+      fields.push(field);
+    });
+
+    if (fields.length > 0) {
+      references.push({ name: getReferenceName(pageName), kind, pageName, href, fields });
+    }
+  });
+
+  return references;
+}
+
+export function saveReference(cacheDir: string, pages: Record<string, PageReference[]>): void {
+  const data: ReferenceData = {
+    timestamp: new Date().toISOString(),
+    pages,
+  };
+  const filePath = path.join(cacheDir, REFERENCE_FILENAME);
+  fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(filePath + '.tmp', JSON.stringify(data, null, 2));
+  fs.renameSync(filePath + '.tmp', filePath);
+}
+
+export function loadReference(cacheDir: string): ReferenceData | null {
+  const filePath = path.join(cacheDir, REFERENCE_FILENAME);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as ReferenceData;
+}
+
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Returns the candidates closest to `name` (case-insensitive), for
+ * "did you mean" suggestions.
+ */
+export function suggestNames(name: string, candidates: string[], limit = 3): string[] {
+  const target = name.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(target.length / 3));
+  return candidates
+    .map(candidate => ({ candidate, distance: editDistance(target, candidate.toLowerCase()) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Query-time view of reference.json: entries merged by resource/command
+ * name, with case-insensitive lookup.
+ */
+export class ReferenceStore {
+  private entries = new Map<string, ReferenceEntry>();
+
+  constructor(data: ReferenceData | null) {
+    if (!data) return;
+
+    for (const pageReferences of Object.values(data.pages)) {
+      for (const reference of pageReferences) {
+        const key = `${reference.kind}:${reference.name.toLowerCase()}`;
+        let entry = this.entries.get(key);
+        if (!entry) {
+          entry = { name: reference.name, kind: reference.kind, pages: [], fields: [] };
+          this.entries.set(key, entry);
+        }
+        if (!entry.pages.some(page => page.href === reference.href)) {
+          entry.pages.push({ pageName: reference.pageName, href: reference.href });
+        }
+        entry.fields.push(...reference.fields);
+      }
+    }
+  }
+
+  static load(cacheDir: string): ReferenceStore {
+    return new ReferenceStore(loadReference(cacheDir));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  list(kind?: ReferenceKind): ReferenceEntry[] {
+    return Array.from(this.entries.values()).filter(entry => !kind || entry.kind === kind);
+  }
+
+  get(name: string, kind?: ReferenceKind): ReferenceEntry | undefined {
+    const lower = name.toLowerCase();
+    const kinds: ReferenceKind[] = kind ? [kind] : ['resource', 'command'];
+    for (const k of kinds) {
+      const entry = this.entries.get(`${k}:${lower}`);
+      if (entry) return entry;
+    }
+    // Pages whose file name differs from the script type, e.g. FuelTank.html documents ChemicalTank
+    return this.list(kind).find(entry => entry.pages.some(page => page.href.replace('.html', '').toLowerCase() === lower));
+  }
+
+  getField(entry: ReferenceEntry, fieldName: string): FieldInfo | undefined {
+    const lower = fieldName.toLowerCase();
+    return entry.fields.find(field => field.name.toLowerCase() === lower);
+  }
+}
@@ -0,0 +1,268 @@
+import axios from 'axios';
+import OpenAI from 'openai';
+import { SearchResult } from './search.js';
+import { tokenize } from './lexical.js';
+import { formatHeadingPath } from './parser.js';
+
+export type RerankerType = 'heuristic' | 'cross-encoder' | 'llm';
+
+export interface RerankerInfo {
+  provider: RerankerType;
+  model?: string;
+}
+
+export interface Reranker {
+  readonly info: RerankerInfo;
+  // Relevance of each candidate to the query, in candidate order, roughly 0-1
+  score(query: string, candidates: SearchResult[]): Promise<number[]>;
+}
+
+export interface RerankerConfig {
+  provider?: RerankerType;
+  model?: string;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+const DEFAULT_LLM_MODEL = 'gpt-4o-mini';
+const REQUEST_TIMEOUT_MS = 30000;
+// Characters of each candidate sent to a cross-encoder or LLM
+const MAX_CROSS_ENCODER_CHARS = 2000;
+const MAX_LLM_CHARS = 800;
+
+// Weights of the heuristic reranker's signals; they add up to at most 1
+const RETRIEVAL_WEIGHT = 0.4;
+const TITLE_WEIGHT = 0.3;
+const CONTENT_WEIGHT = 0.15;
+const IDENTIFIER_WEIGHT = 0.1;
+const KIND_WEIGHT = 0.05;
+
+// Queries asking for field tables or for script code
+const TABLE_INTENT = /\b(fields?|options?|defaults?|allowed values?|units?|parameters?|data types?|settings?)\b/i;
+const CODE_INTENT = /\b(examples?|scripts?|syntax|snippets?|samples?|code)\b/i;
+
+function getCandidateTitle(result: SearchResult): string {
+  const { chunk } = result;
+  return formatHeadingPath(chunk.headingPath || [chunk.pageName, ...(chunk.heading ? [chunk.heading] : [])]);
+}
+
+function getCandidateText(result: SearchResult, maxChars: number): string {
+  const text = `${getCandidateTitle(result)}\n\n${result.chunk.fullContent}`;
+  return text.length > maxChars ? text.slice(0, maxChars) : text;
+}
+
+/**
+ * Crude suffix stripping so that "stopping" meets "stop" and "propagation"
+ * meets "propagate"; stems are then compared by prefix.
+ */
+function stem(term: string): string {
+  let word = term;
+  for (const suffix of ['ations', 'ation', 'ions', 'ion', 'ings', 'ing', 'ers', 'er', 'ed', 'es', 's', 'e']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      word = word.slice(0, -suffix.length);
+      break;
+    }
+  }
+  // "stopp" -> "stop"
+  return /([b-df-hj-np-tv-z])\1$/.test(word) ? word.slice(0, -1) : word;
+}
+
+function stemsMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  return Math.min(a.length, b.length) >= 4 && (a.startsWith(b) || b.startsWith(a));
+}
+
+function getStems(text: string): string[] {
+  return Array.from(new Set(tokenize(text).map(stem)));
+}
+
+// Share of the query stems found among `stems`
+function coverage(queryStems: string[], stems: string[]): number {
+  if (queryStems.length === 0) return 0;
+  const matched = queryStems.filter(queryStem => stems.some(other => stemsMatch(queryStem, other)));
+  return matched.length / queryStems.length;
+}
+
+/**
+ * Built-in reranker that needs no model: it keeps most of the retrieval
+ * order and adds how many query terms the page name and headings cover, how
+ * many the content covers, whether the query names the page's identifier as
+ * written (e.g. "Propagate"), and whether the section kind fits the question.
+ */
+export class HeuristicReranker implements Reranker {
+  readonly info: RerankerInfo = { provider: 'heuristic' };
+
+  async score(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const queryStems = getStems(query);
+    // Case-sensitive, so "how do I stop" does not name the Stop command
+    const queryWords = new Set(query.match(/[A-Za-z0-9_.]+/g) || []);
+    const wantedKind = TABLE_INTENT.test(query) ? 'table' : CODE_INTENT.test(query) ? 'code' : null;
+
+    return candidates.map((result, rank) => {
+      const { chunk } = result;
+      const retrieval = 1 - rank / candidates.length;
+      const title = coverage(queryStems, getStems(getCandidateTitle(result)));
+      const content = coverage(queryStems, getStems(chunk.fullContent));
+      const identifier = queryWords.has(chunk.pageName) ? 1 : 0;
+      const kind = wantedKind !== null && chunk.kind === wantedKind ? 1 : 0;
+
+      return RETRIEVAL_WEIGHT * retrieval + TITLE_WEIGHT * title + CONTENT_WEIGHT * content +
+        IDENTIFIER_WEIGHT * identifier + KIND_WEIGHT * kind;
+    });
+  }
+}
+
+interface RerankResponseItem {
+  index: number;
+  relevance_score?: number;
+  score?: number;
+}
+
+/**
+ * Cross-encoder served over HTTP with the /rerank API of Cohere and Jina,
+ * which vLLM, llama.cpp, Infinity and LocalAI also implement. `baseURL` is
+ * the prefix of that endpoint, e.g. http://localhost:8000/v1.
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly info: RerankerInfo;
+
+  constructor(private config: { baseURL: string; model?: string; apiKey?: string }) {
+    this.info = { provider: 'cross-encoder', model: config.model };
+  }
+
+  async score(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const response = await axios.post(`${this.config.baseURL.replace(/\/+$/, '')}/rerank`, {
+      ...(this.config.model ? { model: this.config.model } : {}),
+      query,
+      documents: candidates.map(result => getCandidateText(result, MAX_CROSS_ENCODER_CHARS)),
+    }, {
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {},
+    });
+
+    // Most servers wrap the list in `results`; some return it bare
+    const items: RerankResponseItem[] | undefined = Array.isArray(response.data) ? response.data : response.data?.results;
+    if (!Array.isArray(items)) {
+      throw new Error('Unexpected response from the rerank endpoint: no results');
+    }
+    const scores = new Array<number>(candidates.length).fill(0);
+    for (const item of items) {
+      const score = item.relevance_score ?? item.score;
+      if (Number.isInteger(item.index) && item.index >= 0 && item.index < scores.length && typeof score === 'number') {
+        scores[item.index] = score;
+      }
+    }
+    // Some servers return raw logits rather than probabilities
+    return scores.some(score => score < 0 || score > 1) ? scores.map(score => 1 / (1 + Math.exp(-score))) : scores;
+  }
+}
+
+/**
+ * Asks a chat model, from OpenAI or an OpenAI-compatible server, to rate
+ * every candidate from 0 to 10 in a single request.
+ */
+export class LlmReranker implements Reranker {
+  readonly info: RerankerInfo;
+  private client: OpenAI;
+
+  constructor(config: { model: string; apiKey?: string; baseURL?: string }) {
+    this.client = new OpenAI({
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseURL,
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+    this.info = { provider: 'llm', model: config.model };
+  }
+
+  async score(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const passages = candidates
+      .map((result, i) => `[${i}] ${getCandidateText(result, MAX_LLM_CHARS)}`)
+      .join('\n\n');
+    const response = await this.client.chat.completions.create({
+      model: this.info.model!,
+      temperature: 0,
+      messages: [
+        {
+          role: 'system',
+          content: 'You rate how well passages from the GMAT (General Mission Analysis Tool) documentation answer a search query. ' +
+            'Rate each passage from 0 (irrelevant) to 10 (answers the query directly). ' +
+            'Reply with JSON only: {"scores": [...]}, one number per passage, in passage order.',
+        },
+        { role: 'user', content: `Query: ${query}\n\nPassages:\n\n${passages}` },
+      ],
+    });
+
+    const reply = response.choices[0]?.message?.content || '';
+    const json = reply.match(/\{[\s\S]*\}/)?.[0];
+    let scores: unknown;
+    try {
+      scores = json ? JSON.parse(json).scores : undefined;
+    } catch {
+      // Reported below
+    }
+    if (!Array.isArray(scores) || scores.length !== candidates.length) {
+      throw new Error(`The model did not return ${candidates.length} scores`);
+    }
+    return scores.map(score => Math.min(Math.max(Number(score) || 0, 0), 10) / 10);
+  }
+}
+
+/**
+ * Reorders candidates by the reranker's scores, which replace their
+ * retrieval scores. Ties keep the retrieval order.
+ */
+export async function rerankResults(reranker: Reranker, query: string, candidates: SearchResult[]): Promise<SearchResult[]> {
+  if (candidates.length === 0) return candidates;
+  const scores = await reranker.score(query, candidates);
+  return candidates
+    .map((result, i) => ({ result: { ...result, score: scores[i] }, i }))
+    .sort((a, b) => b.result.score - a.result.score || a.i - b.i)
+    .map(({ result }) => result);
+}
+
+function parseRerankerType(value: string | undefined): RerankerType {
+  const type = (value || 'heuristic').toLowerCase();
+  if (type === 'heuristic' || type === 'cross-encoder' || type === 'llm') {
+    return type;
+  }
+  throw new Error(`Unknown RERANK_PROVIDER "${value}". Expected one of: heuristic, cross-encoder, llm`);
+}
+
+/**
+ * Reranker settings from the environment. OPENAI_API_KEY is only used by
+ * the llm reranker on OpenAI itself, never sent to a RERANK_BASE_URL.
+ */
+export function getRerankerConfig(): RerankerConfig {
+  const provider = parseRerankerType(process.env.RERANK_PROVIDER);
+  const baseURL = process.env.RERANK_BASE_URL;
+  return {
+    provider,
+    model: process.env.RERANK_MODEL,
+    apiKey: process.env.RERANK_API_KEY || (provider === 'llm' && !baseURL ? process.env.OPENAI_API_KEY : undefined),
+    baseURL,
+  };
+}
+
+export function createReranker(config: RerankerConfig = getRerankerConfig()): Reranker {
+  switch (config.provider || 'heuristic') {
+    case 'heuristic':
+      return new HeuristicReranker();
+    case 'cross-encoder':
+      if (!config.baseURL) {
+        throw new Error('RERANK_BASE_URL environment variable is required for the cross-encoder reranker');
+      }
+      return new CrossEncoderReranker({ baseURL: config.baseURL, model: config.model, apiKey: config.apiKey });
+    case 'llm':
+      if (config.baseURL && !config.model) {
+        throw new Error('RERANK_MODEL environment variable is required for the llm reranker with RERANK_BASE_URL');
+      }
+      if (!config.baseURL && !config.apiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is required for the llm reranker');
+      }
+      return new LlmReranker({ model: config.model || DEFAULT_LLM_MODEL, apiKey: config.apiKey, baseURL: config.baseURL });
+  }
+}
+
+export function describeReranker(info: RerankerInfo): string {
+  return info.model ? `${info.provider}/${info.model}` : info.provider;
+}
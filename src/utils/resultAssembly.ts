@@ -0,0 +1,179 @@
+import { cosineSimilarity, SearchChunk, SearchResult } from './search.js';
+import { estimateTokens } from './embedder.js';
+import { getSectionId } from './documents.js';
+import { CODE_FENCE, joinContinuedPart } from './markdown.js';
+
+export interface AssemblyOptions {
+  topK: number;
+  // Approximate budget for the content of all hits together
+  maxTokens: number;
+  // Maximum number of hits from one page; unlimited when unset
+  maxPerPage?: number;
+  // Maximal marginal relevance trade-off: 0 ranks by relevance only, 1 by novelty only
+  diversity?: number;
+}
+
+export interface AssembledHit {
+  // First chunk of the hit; merged hits also cover the following parts
+  chunk: SearchChunk;
+  chunkIds: string[];
+  content: string;
+  score: number;
+  tokens: number;
+  // True when the content was cut to fit the token budget
+  truncated: boolean;
+}
+
+export interface OmittedHit {
+  id: string;
+  pageName: string;
+  score: number;
+  reason: 'max_tokens' | 'max_per_page';
+}
+
+export interface AssembledResults {
+  hits: AssembledHit[];
+  omitted: OmittedHit[];
+  totalTokens: number;
+}
+
+// Below this, a cut-off excerpt is not worth including
+const MIN_TRUNCATED_TOKENS = 100;
+
+/**
+ * Merges hits that are consecutive parts of the same section into
+ * one hit, in part order. The merged hit keeps the best score of its parts.
+ */
+export function mergeAdjacentParts(results: SearchResult[]): AssembledHit[] {
+  const groups = new Map<string, SearchResult[]>();
+  for (const result of results) {
+    const sectionId = getSectionId(result.chunk);
+    groups.set(sectionId, [...(groups.get(sectionId) || []), result]);
+  }
+
+  const hits: AssembledHit[] = [];
+  for (const members of groups.values()) {
+    members.sort((a, b) => (a.chunk.part ?? -1) - (b.chunk.part ?? -1));
+
+    let run: SearchResult[] = [];
+    const flush = () => {
+      if (run.length === 0) return;
+      const content = run.slice(1).reduce(
+        (text, result) => joinContinuedPart(text, result.chunk.fullContent, result.chunk.continuation),
+        run[0].chunk.fullContent
+      );
+      hits.push({
+        chunk: run[0].chunk,
+        chunkIds: run.map(result => result.chunk.id),
+        content,
+        score: Math.max(...run.map(result => result.score)),
+        tokens: estimateTokens(content),
+        truncated: false,
+      });
+      run = [];
+    };
+
+    for (const member of members) {
+      const previous = run[run.length - 1];
+      const previousPart = previous?.chunk.part;
+      const part = member.chunk.part;
+      if (previous && (previousPart === undefined || part === undefined || part !== previousPart + 1)) {
+        flush();
+      }
+      run.push(member);
+    }
+    flush();
+  }
+
+  // Stable sort keeps the original order for equal scores
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+function selectHits(hits: AssembledHit[], options: AssemblyOptions): { selected: AssembledHit[]; capped: AssembledHit[] } {
+  const { topK, maxPerPage, diversity = 0 } = options;
+  const maxScore = hits[0]?.score || 1;
+  const remaining = [...hits];
+  const selected: AssembledHit[] = [];
+  const capped: AssembledHit[] = [];
+  const pageCounts = new Map<string, number>();
+
+  while (selected.length < topK && remaining.length > 0) {
+    let bestIndex = 0;
+    if (diversity > 0 && selected.length > 0) {
+      let bestValue = -Infinity;
+      remaining.forEach((hit, i) => {
+        const redundancy = Math.max(...selected.map(s => cosineSimilarity(hit.chunk.embedding, s.chunk.embedding)));
+        const value = (1 - diversity) * (hit.score / maxScore) - diversity * redundancy;
+        if (value > bestValue) {
+          bestValue = value;
+          bestIndex = i;
+        }
+      });
+    }
+
+    const [hit] = remaining.splice(bestIndex, 1);
+    const count = pageCounts.get(hit.chunk.href) || 0;
+    if (maxPerPage && count >= maxPerPage) {
+      capped.push(hit);
+      continue;
+    }
+    pageCounts.set(hit.chunk.href, count + 1);
+    selected.push(hit);
+  }
+
+  // Only report capped hits that would otherwise have made the cut
+  const lowestSelected = Math.min(...selected.map(hit => hit.score));
+  return { selected, capped: capped.filter(hit => hit.score >= lowestSelected) };
+}
+
+function truncateContent(content: string, maxTokens: number): string {
+  const maxChars = maxTokens * 4;
+  const slice = content.slice(0, maxChars);
+  // Prefer cutting at a paragraph, then a line, then a word boundary, as long
+  // as that keeps more than half of the slice
+  const cut = ['\n\n', '\n', ' ']
+    .map(boundary => slice.lastIndexOf(boundary))
+    .find(index => index > maxChars / 2);
+  const truncated = (cut === undefined ? slice : slice.slice(0, cut)).trimEnd();
+  // Close a code block the cut ended inside of
+  const fences = truncated.split('\n').map(line => line.match(CODE_FENCE)?.[1]).filter(Boolean);
+  return fences.length % 2 === 1 ? `${truncated}\n${fences[fences.length - 1]}` : truncated;
+}
+
+/**
+ * Turns ranked search results into the hits returned to the client: parts
+ * merged, per-page cap and diversity applied, and content fit to a token budget.
+ */
+export function assembleResults(results: SearchResult[], options: AssemblyOptions): AssembledResults {
+  const { selected, capped } = selectHits(mergeAdjacentParts(results), options);
+  const hits: AssembledHit[] = [];
+  const omitted: OmittedHit[] = capped.map(hit => ({
+    id: hit.chunkIds[0],
+    pageName: hit.chunk.pageName,
+    score: hit.score,
+    reason: 'max_per_page',
+  }));
+  let totalTokens = 0;
+
+  for (const hit of selected) {
+    const available = options.maxTokens - totalTokens;
+    if (hit.tokens <= available) {
+      hits.push(hit);
+      totalTokens += hit.tokens;
+      continue;
+    }
+
+    // Always return something, even if the best hit alone exceeds the budget
+    if (available >= MIN_TRUNCATED_TOKENS || hits.length === 0) {
+      const content = truncateContent(hit.content, Math.max(available, MIN_TRUNCATED_TOKENS));
+      const tokens = estimateTokens(content);
+      hits.push({ ...hit, content, tokens, truncated: true });
+      totalTokens += tokens;
+      continue;
+    }
+
+    omitted.push({ id: hit.chunkIds[0], pageName: hit.chunk.pageName, score: hit.score, reason: 'max_tokens' });
+  }
+
+  return { hits, omitted, totalTokens };
+}
@@ -1,19 +1,38 @@
 import axios from 'axios';
-import { PAGES } from './pages.js';
+import { getPageUrl, PAGES } from './pages.js';
+import { DocSource } from './sources.js';
 
 export interface ScrapedPage {
   href: string;
   html: string;
+  etag?: string;
+  lastModified?: string;
+  // True when the server answered 304 to a conditional request; html is empty then
+  notModified?: boolean;
 }
 
-const BASE_URL = process.env.BASE_URL || 'https://documentation.help/gmat/';
+export interface PageValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export const USER_AGENT = 'Mozilla/5.0 (compatible; GMAT-MCP-Server/1.0)';
 
 async function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
 export async function scrapePage(href: string, retries = 3): Promise<string> {
-  const url = `${BASE_URL}${href}`;
+  const page = await fetchPage(href, {}, retries);
+  return page.html;
+}
+
+/**
+ * Fetches a page, sending If-None-Match / If-Modified-Since when validators
+ * from a previous run are known so unchanged pages cost a 304 and no body.
+ */
+export async function fetchPage(href: string, validators: PageValidators = {}, retries = 3): Promise<ScrapedPage> {
+  const url = getPageUrl(href);
   
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
@@ -22,11 +41,27 @@ export async function scrapePage(href: string, retries = 3): Promise<string> {
       const response = await axios.get(url, {
         timeout: 10000,
         headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; GMAT-MCP-Server/1.0)',
+          'User-Agent': USER_AGENT,
+          ...(validators.etag ? { 'If-None-Match': validators.etag } : {}),
+          ...(validators.lastModified ? { 'If-Modified-Since': validators.lastModified } : {}),
         },
+        validateStatus: status => (status >= 200 && status < 300) || status === 304,
       });
       
-      return response.data;
+      const etag = response.headers['etag'] as string | undefined;
+      const lastModified = response.headers['last-modified'] as string | undefined;
+      
+      if (response.status === 304) {
+        return {
+          href,
+          html: '',
+          etag: etag || validators.etag,
+          lastModified: lastModified || validators.lastModified,
+          notModified: true,
+        };
+      }
+      
+      return { href, html: response.data, etag, lastModified };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`Error scraping ${href} (attempt ${attempt}/${retries}):`, errorMessage);
@@ -41,25 +76,23 @@ export async function scrapePage(href: string, retries = 3): Promise<string> {
     }
   }
   
-  throw new Error(`Unreachable code reached in scrapePage for ${href}`);
+  throw new Error(`Unreachable code reached in fetchPage for ${href}`);
 }
 
-export async function scrapeAll(): Promise<ScrapedPage[]> {
+export async function scrapeAll(source: DocSource, previous: Record<string, PageValidators> = {}): Promise<ScrapedPage[]> {
   const results: ScrapedPage[] = [];
   
-  console.log(`Starting to scrape ${PAGES.length} pages...`);
+  console.log(`Starting to scrape ${PAGES.length} pages from ${source.description}...`);
   
   // Sequential scraping to be respectful to the server
   for (const page of PAGES) {
     try {
-      const html = await scrapePage(page.href);
-      results.push({
-        href: page.href,
-        html
-      });
+      results.push(await source.fetch(page.href, previous[page.href]));
       
       // Small delay between requests
-      await delay(500);
+      if (source.remote) {
+        await delay(500);
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`Failed to scrape page ${page.name} (${page.href}):`, errorMessage);
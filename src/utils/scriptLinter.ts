@@ -0,0 +1,328 @@
+import { PAGES } from './pages.js';
+import { FieldInfo, ReferenceEntry, ReferenceStore, suggestNames } from './reference.js';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintCode =
+  | 'unknown-resource-type'
+  | 'unknown-field'
+  | 'field-case'
+  | 'invalid-enum-value'
+  | 'undeclared-resource'
+  | 'duplicate-resource'
+  | 'command-before-mission-sequence'
+  | 'create-in-mission-sequence'
+  | 'unknown-command'
+  | 'missing-mission-sequence';
+
+export interface LintIssue {
+  severity: LintSeverity;
+  code: LintCode;
+  line: number;
+  message: string;
+  // Documentation page that defines the resource, field or command involved
+  href?: string;
+}
+
+export interface LintResult {
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  resources: Array<{ name: string; type: string; line: number }>;
+  issues: LintIssue[];
+}
+
+// Script commands, including the block keywords that have no page of their own
+export const GMAT_COMMANDS = [
+  'Achieve', 'BeginFiniteBurn', 'BeginMissionSequence', 'BeginScript', 'CallGmatFunction',
+  'CallMatlabFunction', 'CallPythonFunction', 'ClearPlot', 'CommandEcho', 'EndFiniteBurn',
+  'FindEvents', 'For', 'Global', 'If', 'Maneuver', 'MarkPoint', 'Minimize', 'NonlinearConstraint',
+  'Optimize', 'PenUp', 'PenDown', 'Propagate', 'Report', 'RunEstimator', 'RunSimulator', 'Save', 'Set',
+  'Stop', 'Target', 'Toggle', 'UpdateDynamicData', 'Vary', 'While', 'Write',
+  'Else', 'EndFor', 'EndIf', 'EndWhile', 'EndTarget', 'EndOptimize', 'EndScript',
+];
+
+// Objects GMAT creates by default, so they can be configured without a Create line
+const DEFAULT_OBJECTS = [
+  'SolarSystem', 'Sun', 'Mercury', 'Venus', 'Earth', 'Luna', 'Mars', 'Jupiter', 'Saturn', 'Uranus',
+  'Neptune', 'Pluto', 'EarthMJ2000Eq', 'EarthMJ2000Ec', 'EarthFixed', 'EarthICRF',
+];
+
+export interface Statement {
+  line: number;
+  text: string;
+}
+
+/**
+ * Splits a script into statements: strips % comments, joins "..."
+ * continuation lines and splits on semicolons outside quotes and braces.
+ */
+export function splitStatements(script: string): Statement[] {
+  const statements: Statement[] = [];
+  const lines = script.split(/\r?\n/);
+  let pending = '';
+  let pendingLine = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    let text = lines[i];
+    let inQuote = false;
+    for (let c = 0; c < text.length; c++) {
+      if (text[c] === "'") inQuote = !inQuote;
+      if (text[c] === '%' && !inQuote) {
+        text = text.slice(0, c);
+        break;
+      }
+    }
+
+    if (!pending) pendingLine = i + 1;
+    text = text.trim();
+    if (text.endsWith('...')) {
+      pending += text.slice(0, -3) + ' ';
+      continue;
+    }
+    text = pending + text;
+    pending = '';
+
+    let depth = 0;
+    let quote = false;
+    let start = 0;
+    for (let c = 0; c <= text.length; c++) {
+      const ch = text[c];
+      if (ch === "'") quote = !quote;
+      if (!quote && (ch === '{' || ch === '(' || ch === '[')) depth++;
+      if (!quote && (ch === '}' || ch === ')' || ch === ']')) depth--;
+      if (c === text.length || (ch === ';' && !quote && depth <= 0)) {
+        const statement = text.slice(start, c).trim();
+        if (statement) statements.push({ line: pendingLine, text: statement });
+        start = c + 1;
+      }
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * Resource type and names of a Create statement. Names are split on spaces
+ * and commas outside brackets and lose their size, so
+ * "Create Array A[3,3], B[2]" creates A and B of type Array.
+ */
+export function parseCreate(text: string): { type?: string; names: string[] } {
+  const [, type, rest = ''] = text.match(/^Create\s+(\S+)\s*(.*)$/) || [];
+  const names: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let c = 0; c <= rest.length; c++) {
+    const ch = rest[c];
+    if (ch === '[' || ch === '(') depth++;
+    if (ch === ']' || ch === ')') depth--;
+    if (c === rest.length || (/[\s,]/.test(ch) && depth <= 0)) {
+      const name = rest.slice(start, c).replace(/[[(].*$/, '').trim();
+      if (name) names.push(name);
+      start = c + 1;
+    }
+  }
+  return { type, names };
+}
+
+function findPageHref(name: string): string | undefined {
+  return PAGES.find(page => page.name === name)?.href;
+}
+
+function parseEnumValue(value: string): string | null {
+  // Only plain identifiers and booleans are compared against enumerations
+  const trimmed = value.trim().replace(/^'(.*)'$/, '$1');
+  return /^[A-Za-z_][\w.]*$/.test(trimmed) ? trimmed : null;
+}
+
+function findField(entry: ReferenceEntry, fieldPath: string): { field?: FieldInfo; caseMismatch?: FieldInfo } {
+  // Fields like ForceModel's GravityField.Earth.Degree are documented with their full path
+  const candidates = [fieldPath, fieldPath.split('.')[0]];
+  for (const candidate of candidates) {
+    const exact = entry.fields.find(field => field.name === candidate);
+    if (exact) return { field: exact };
+  }
+  for (const candidate of candidates) {
+    const lower = candidate.toLowerCase();
+    const caseMismatch = entry.fields.find(field => field.name.toLowerCase() === lower);
+    if (caseMismatch) return { caseMismatch };
+  }
+  return {};
+}
+
+export function lintScript(script: string, referenceStore: ReferenceStore): LintResult {
+  const issues: LintIssue[] = [];
+  const resources = new Map<string, { name: string; type: string; line: number }>();
+  const resourceTypes = referenceStore.list('resource').map(entry => entry.name);
+  const commands = new Set([...GMAT_COMMANDS, ...referenceStore.list('command').map(entry => entry.name)]);
+  const missionSequenceHref = findPageHref('BeginMissionSequence');
+  let inMissionSequence = false;
+
+  for (const { line, text: rawText } of splitStatements(script)) {
+    // Older scripts prefix assignments with the GMAT keyword
+    const text = rawText.replace(/^GMAT\s+/, '');
+    const keyword = text.split(/[\s(;]/)[0];
+
+    if (keyword === 'BeginMissionSequence') {
+      inMissionSequence = true;
+      continue;
+    }
+
+    if (keyword === 'Create') {
+      const { type, names } = parseCreate(text);
+      if (inMissionSequence) {
+        issues.push({
+          severity: 'warning',
+          code: 'create-in-mission-sequence',
+          line,
+          message: `Create ${type ?? ''} appears after BeginMissionSequence; resources should be created before it`,
+          href: missionSequenceHref,
+        });
+      }
+      if (!type) continue;
+
+      const entry = referenceStore.get(type, 'resource');
+      // Some documented resources (e.g. Variable) have a page but no field table
+      if (!entry && referenceStore.size > 0 && !findPageHref(type)) {
+        const suggestions = suggestNames(type, resourceTypes);
+        issues.push({
+          severity: 'error',
+          code: 'unknown-resource-type',
+          line,
+          message: `Unknown resource type "${type}"` +
+            (suggestions.length > 0 ? `. Did you mean: ${suggestions.join(', ')}?` : ''),
+          href: suggestions.length > 0 ? referenceStore.get(suggestions[0], 'resource')?.pages[0]?.href : findPageHref('Resources'),
+        });
+      }
+
+      for (const name of names) {
+        const existing = resources.get(name);
+        if (existing) {
+          issues.push({
+            severity: 'warning',
+            code: 'duplicate-resource',
+            line,
+            message: `"${name}" was already created on line ${existing.line}`,
+          });
+        }
+        resources.set(name, { name, type: entry?.name ?? type, line });
+      }
+      continue;
+    }
+
+    const assignment = text.match(/^([A-Za-z_]\w*)\.([\w.]+)\s*=\s*(.*)$/);
+    if (assignment && !inMissionSequence) {
+      const [, objectName, fieldPath, value] = assignment;
+      const resource = resources.get(objectName);
+
+      if (!resource) {
+        if (!DEFAULT_OBJECTS.includes(objectName)) {
+          issues.push({
+            severity: 'warning',
+            code: 'undeclared-resource',
+            line,
+            message: `"${objectName}" is assigned before it is created`,
+          });
+        }
+        continue;
+      }
+
+      const entry = referenceStore.get(resource.type, 'resource');
+      if (!entry) continue;
+
+      const { field, caseMismatch } = findField(entry, fieldPath);
+      if (caseMismatch) {
+        issues.push({
+          severity: 'error',
+          code: 'field-case',
+          line,
+          message: `${resource.type} field "${fieldPath}" should be written "${caseMismatch.name}" (field names are case-sensitive)`,
+          href: caseMismatch.href,
+        });
+        continue;
+      }
+      if (!field) {
+        const suggestions = suggestNames(fieldPath, entry.fields.map(f => f.name));
+        issues.push({
+          severity: 'error',
+          code: 'unknown-field',
+          line,
+          message: `${resource.type} has no documented field "${fieldPath}"` +
+            (suggestions.length > 0 ? `. Did you mean: ${suggestions.join(', ')}?` : ''),
+          href: entry.pages[0]?.href,
+        });
+        continue;
+      }
+
+      const enumValue = field.enumValues && fieldPath === field.name ? parseEnumValue(value) : null;
+      if (field.enumValues && enumValue !== null && !field.enumValues.includes(enumValue)) {
+        const isBoolean = /boolean/i.test(field.dataType || '');
+        // Boolean fields are written true/false, but GMAT accepts any case
+        if (!isBoolean || !field.enumValues.some(allowed => allowed.toLowerCase() === enumValue.toLowerCase())) {
+          issues.push({
+            severity: 'error',
+            code: 'invalid-enum-value',
+            line,
+            message: `"${enumValue}" is not an allowed value for ${resource.type}.${field.name}. ` +
+              `Allowed values: ${field.enumValues.join(', ')}`,
+            href: field.href,
+          });
+        }
+      }
+      continue;
+    }
+
+    if (assignment) {
+      // Assignment command inside the mission sequence
+      continue;
+    }
+
+    if (commands.has(keyword)) {
+      if (!inMissionSequence) {
+        issues.push({
+          severity: 'error',
+          code: 'command-before-mission-sequence',
+          line,
+          message: `Command "${keyword}" is used before BeginMissionSequence`,
+          href: missionSequenceHref,
+        });
+      }
+      continue;
+    }
+
+    // Plain assignments (x = 1) and function calls ([a] = F(b)) are valid in the mission sequence
+    const isAssignment = /^(\[[^\]]*\]|[\w.]+(\([^)]*\))?)\s*=/.test(text);
+    if (inMissionSequence && !isAssignment && /^[A-Za-z_]\w*$/.test(keyword)) {
+      const suggestions = suggestNames(keyword, Array.from(commands));
+      issues.push({
+        severity: 'warning',
+        code: 'unknown-command',
+        line,
+        message: `Unknown command "${keyword}"` +
+          (suggestions.length > 0 ? `. Did you mean: ${suggestions.join(', ')}?` : ''),
+        href: suggestions.length > 0 ? findPageHref(suggestions[0]) : findPageHref('Commands'),
+      });
+    }
+  }
+
+  if (!inMissionSequence) {
+    issues.push({
+      severity: 'warning',
+      code: 'missing-mission-sequence',
+      line: 1,
+      message: 'Script has no BeginMissionSequence command',
+      href: missionSequenceHref,
+    });
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+
+  return {
+    valid: errors === 0,
+    errors,
+    warnings: issues.length - errors,
+    resources: Array.from(resources.values()),
+    issues,
+  };
+}
@@ -1,91 +1,495 @@
-import * as fs from 'fs';
 import * as path from 'path';
+import { EmbeddingProviderInfo } from './embeddingProvider.js';
+import { LexicalIndex } from './lexical.js';
+import { Vector, readLegacyCache, readVectorStore } from './vectorStore.js';
+import { BASE_URL, findPage, PAGES } from './pages.js';
+import { ContentKind } from './markdown.js';
+import { DEFAULT_COLLECTION, listCollections } from './cache.js';
+import { HnswIndex } from './hnsw.js';
+import { dotProduct, normalizeVector, normalizeVectors, TopK } from './vectors.js';
 
 export interface SearchChunk {
   id: string;
   pageName: string;
   href: string;
   fullContent: string;
-  embedding: number[];
+  heading?: string;
+  headingPath?: string[];
+  headingLevel?: number;
+  order?: number;
+  anchor?: string;
+  kind?: ContentKind;
+  continuation?: ContentKind;
+  sectionId?: string;
+  part?: number;
+  category?: string;
+  tags?: string[];
+  // Documentation version of the collection the chunk was loaded from
+  version?: string;
+  embedding: Vector;
 }
 
+// Restricts a search to part of the documentation; all given conditions must hold
+export interface SearchFilter {
+  // Collection to search; the default version when unset
+  version?: string;
+  categories?: string[];
+  excludeCategories?: string[];
+  // Page hrefs
+  pages?: string[];
+  // Matches pages carrying any of these tags
+  tags?: string[];
+}
+
+export type SearchMode = 'semantic' | 'lexical' | 'hybrid';
+
 export interface SearchResult {
   chunk: SearchChunk;
   score: number;
+  semanticScore?: number;
+  lexicalScore?: number;
 }
 
+export interface ChunkContext {
+  chunk: SearchChunk;
+  previous: SearchChunk[];
+  next: SearchChunk[];
+}
+
+export interface PageChunks {
+  href: string;
+  pageName: string;
+  chunks: SearchChunk[];
+}
+
+// Reciprocal rank fusion constant; 60 is the value from the original RRF paper
+const RRF_K = 60;
+
 export interface CacheData {
   timestamp: string;
   version: string;
+  embedding?: EmbeddingProviderInfo;
+  baseUrl?: string;
   chunks: SearchChunk[];
+  index?: HnswIndex;
+}
+
+export interface SearchEngineOptions {
+  // Scan every vector even when the cache has an HNSW index, e.g. for evaluation
+  exact?: boolean;
+}
+
+export interface VersionInfo {
+  version: string;
+  timestamp: string;
+  baseUrl: string;
+  totalChunks: number;
+  pageCount: number;
+}
+
+// The cache of one documentation version
+interface Collection {
+  version: string;
+  timestamp: string;
+  baseUrl: string;
+  chunks: SearchChunk[];
+  // Unit-length chunk vectors, back to back in chunk order; chunk embeddings are views into it
+  vectors: Float32Array;
+  dimensions: number;
+  vectorIndex: HnswIndex | null;
+  embeddingInfo: EmbeddingProviderInfo;
+  lexicalIndex: LexicalIndex | null;
+  chunkPositions: Map<string, number>;
+  // Chunk positions per page href, in document order
+  pagePositions: Map<string, number[]>;
+}
+
+// Caches written before providers were configurable were always built with this model
+export const LEGACY_EMBEDDING_INFO: EmbeddingProviderInfo = {
+  provider: 'openai',
+  model: 'text-embedding-3-small',
+};
+
+export function cosineSimilarity(a: Vector, b: Vector): number {
+  if (a.length !== b.length) {
+    throw new Error('Vectors must have the same length');
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function buildCollection(version: string, cacheData: CacheData): Collection {
+  // Normalized once here, so a query costs one dot product per chunk
+  const dimensions = cacheData.chunks[0]?.embedding.length ?? 0;
+  const vectors = new Float32Array(cacheData.chunks.length * dimensions);
+  cacheData.chunks.forEach((chunk, i) => vectors.set(chunk.embedding, i * dimensions));
+  normalizeVectors(vectors, dimensions);
+
+  const collection: Collection = {
+    version,
+    timestamp: cacheData.timestamp,
+    baseUrl: cacheData.baseUrl || BASE_URL,
+    chunks: cacheData.chunks,
+    vectors,
+    dimensions,
+    vectorIndex: cacheData.index || null,
+    embeddingInfo: cacheData.embedding || LEGACY_EMBEDDING_INFO,
+    lexicalIndex: null,
+    chunkPositions: new Map(),
+    pagePositions: new Map(),
+  };
+
+  // Setup writes chunks page by page in document order
+  collection.chunks.forEach((chunk, position) => {
+    chunk.version = version;
+    chunk.embedding = vectors.subarray(position * dimensions, (position + 1) * dimensions);
+    // Caches built before pages had categories get them from pages.json
+    if (chunk.category === undefined) {
+      const page = findPage(chunk.href);
+      chunk.category = page?.category;
+      chunk.tags = page?.tags;
+    }
+    if (!collection.chunkPositions.has(chunk.id)) {
+      collection.chunkPositions.set(chunk.id, position);
+    }
+    const positions = collection.pagePositions.get(chunk.href) || [];
+    positions.push(position);
+    collection.pagePositions.set(chunk.href, positions);
+  });
+
+  return collection;
 }
 
 export class SearchEngine {
-  private chunks: SearchChunk[] = [];
+  private collections = new Map<string, Collection>();
+  private defaultVersion = DEFAULT_COLLECTION;
   private isLoaded = false;
   private cacheDir: string;
+  private configuredVersion?: string;
+  private exact: boolean;
 
-  constructor(cacheDir?: string) {
+  /**
+   * @param defaultVersion Version searched when a call names none; defaults
+   * to the collection in the cache root, else the last version by name.
+   */
+  constructor(cacheDir?: string, defaultVersion?: string, options: SearchEngineOptions = {}) {
     this.cacheDir = cacheDir || path.join(process.cwd(), 'data');
+    this.configuredVersion = defaultVersion || undefined;
+    this.exact = options.exact ?? false;
   }
 
+  /**
+   * Loads the collection in the cache root and every collection under
+   * versions/ at once.
+   */
   async loadCache(): Promise<void> {
-    const cachePath = path.join(this.cacheDir, 'embeddings.json');
-    
-    if (!fs.existsSync(cachePath)) {
-      throw new Error(`Cache not found at ${cachePath}. Run setup first.`);
+    const collections = new Map<string, Collection>();
+    for (const { version, dir } of listCollections(this.cacheDir)) {
+      // Prefer the binary store; fall back to a pre-2.0 embeddings.json
+      const cacheData: CacheData | null = readVectorStore(dir) || readLegacyCache(dir);
+      if (cacheData) {
+        collections.set(version, buildCollection(version, cacheData));
+      }
+    }
+
+    if (collections.size === 0) {
+      throw new Error(`Cache not found in ${this.cacheDir}. Run setup first.`);
+    }
+    if (this.configuredVersion && !collections.has(this.configuredVersion)) {
+      throw new Error(`Default docs version "${this.configuredVersion}" has no collection in ${this.cacheDir}. ` +
+        `Available: ${Array.from(collections.keys()).join(', ')}. Run setup with --version ${this.configuredVersion}.`);
     }
 
-    const cacheData = JSON.parse(fs.readFileSync(cachePath, 'utf8')) as CacheData;
-    this.chunks = cacheData.chunks;
+    this.collections = collections;
+    this.defaultVersion = this.configuredVersion ||
+      (collections.has(DEFAULT_COLLECTION) ? DEFAULT_COLLECTION : Array.from(collections.keys()).pop()!);
     this.isLoaded = true;
   }
 
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) {
-      throw new Error('Vectors must have the same length');
+  /**
+   * Throws if query embeddings from the given provider cannot be compared
+   * against the vectors stored in the cache.
+   */
+  assertCompatibleProvider(info: EmbeddingProviderInfo): void {
+    this.ensureLoaded();
+
+    for (const collection of this.collections.values()) {
+      const cached = collection.embeddingInfo;
+      const cachedDimensions = cached.dimensions ?? collection.chunks[0]?.embedding.length;
+      if (cached.model !== info.model || (info.dimensions && cachedDimensions && info.dimensions !== cachedDimensions)) {
+        throw new Error(
+          `Cache of version ${collection.version} was built with ${cached.provider}/${cached.model} but the configured embedding provider is ` +
+          `${info.provider}/${info.model}. Re-run setup with --force or change EMBEDDING_PROVIDER/EMBEDDING_MODEL.`
+        );
+      }
     }
+  }
 
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
+  /**
+   * Provider and model the cache of a version was built with.
+   */
+  getEmbeddingInfo(version?: string): EmbeddingProviderInfo {
+    return this.getCollection(version).embeddingInfo;
+  }
 
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
+  private ensureLoaded(): void {
+    if (!this.isLoaded) {
+      throw new Error('Search engine not loaded. Call loadCache() first.');
     }
+  }
 
-    if (normA === 0 || normB === 0) {
-      return 0;
+  private getCollection(version?: string): Collection {
+    this.ensureLoaded();
+    const collection = this.collections.get(version || this.defaultVersion);
+    if (!collection) {
+      throw new Error(`Unknown docs version "${version}". Available: ${this.listVersions().map(v => v.version).join(', ')}`);
     }
+    return collection;
+  }
 
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  hasVersion(version: string): boolean {
+    this.ensureLoaded();
+    return this.collections.has(version);
   }
 
-  async search(queryEmbedding: number[], topK: number = 10, minScore: number = 0.1): Promise<SearchResult[]> {
-    if (!this.isLoaded) {
-      throw new Error('Search engine not loaded. Call loadCache() first.');
+  getDefaultVersion(): string {
+    this.ensureLoaded();
+    return this.defaultVersion;
+  }
+
+  listVersions(): VersionInfo[] {
+    this.ensureLoaded();
+    return Array.from(this.collections.values(), collection => ({
+      version: collection.version,
+      timestamp: collection.timestamp,
+      baseUrl: collection.baseUrl,
+      totalChunks: collection.chunks.length,
+      pageCount: collection.pagePositions.size,
+    }));
+  }
+
+  /**
+   * Absolute URL of a chunk's page under the base URL of its version.
+   */
+  getPageUrl(chunk: Pick<SearchChunk, 'href' | 'version'>): string {
+    return `${this.getCollection(chunk.version).baseUrl}${chunk.href}`;
+  }
+
+  private getLexicalIndex(collection: Collection): LexicalIndex {
+    // Built lazily so purely semantic deployments don't pay for it at startup
+    if (!collection.lexicalIndex) {
+      collection.lexicalIndex = new LexicalIndex(collection.chunks);
     }
+    return collection.lexicalIndex;
+  }
+
+  private createFilter(filter?: SearchFilter): ((chunk: SearchChunk) => boolean) | null {
+    if (!filter) return null;
+    const { categories, excludeCategories, pages, tags } = filter;
+    if (!categories?.length && !excludeCategories?.length && !pages?.length && !tags?.length) return null;
+
+    return chunk =>
+      (!categories?.length || (chunk.category !== undefined && categories.includes(chunk.category))) &&
+      (!excludeCategories?.length || chunk.category === undefined || !excludeCategories.includes(chunk.category)) &&
+      (!pages?.length || pages.includes(chunk.href)) &&
+      (!tags?.length || (chunk.tags || []).some(tag => tags.includes(tag)));
+  }
+
+  /**
+   * Chunks most similar to the query embedding. Uses the collection's HNSW
+   * index when it has one, and an exact scan otherwise, in exact mode, or
+   * when a filter leaves the index with fewer than topK matches.
+   */
+  async search(
+    queryEmbedding: number[],
+    topK: number = 10,
+    minScore: number = 0.1,
+    filter?: SearchFilter
+  ): Promise<SearchResult[]> {
+    const collection = this.getCollection(filter?.version);
+    const { chunks, vectors, dimensions, vectorIndex } = collection;
+    if (chunks.length === 0) return [];
+    if (queryEmbedding.length !== dimensions) {
+      throw new Error('Vectors must have the same length');
+    }
+
+    const query = normalizeVector(queryEmbedding);
+    const matches = this.createFilter(filter);
+    const toResult = (index: number, score: number): SearchResult => ({ chunk: chunks[index], score, semanticScore: score });
 
-    const results: SearchResult[] = [];
+    if (vectorIndex && !this.exact) {
+      const found = vectorIndex.search(vectors, query, topK, undefined, matches ? index => matches(chunks[index]) : undefined);
+      if (!matches || found.length >= topK) {
+        return found.filter(match => match.score >= minScore).map(match => toResult(match.index, match.score));
+      }
+    }
 
-    for (const chunk of this.chunks) {
-      const score = this.cosineSimilarity(queryEmbedding, chunk.embedding);
+    const top = new TopK<number>(topK);
+    for (let i = 0; i < chunks.length; i++) {
+      if (matches && !matches(chunks[i])) continue;
+      const score = dotProduct(query, vectors, i * dimensions);
       if (score >= minScore) {
-        results.push({ chunk, score });
+        top.push(i, score);
       }
     }
+    return top.results().map(({ item, score }) => toResult(item, score));
+  }
+
+  /**
+   * BM25 ranking over chunk content and page names. Needs no query
+   * embedding, so it keeps working when the embedding API is down.
+   */
+  async searchLexical(query: string, topK: number = 10, filter?: SearchFilter): Promise<SearchResult[]> {
+    const collection = this.getCollection(filter?.version);
+    const { chunks } = collection;
+
+    const matches = this.createFilter(filter);
+    const accept = matches ? (index: number) => matches(chunks[index]) : undefined;
+    return this.getLexicalIndex(collection).search(query, topK, accept).map(({ index, score }) => ({
+      chunk: chunks[index],
+      score,
+      lexicalScore: score,
+    }));
+  }
+
+  /**
+   * Fuses the semantic and lexical rankings with reciprocal rank fusion.
+   * The fused score is scaled so that a chunk ranked first by both
+   * retrievers scores 1.
+   */
+  async searchHybrid(
+    query: string,
+    queryEmbedding: number[],
+    topK: number = 10,
+    minScore: number = 0.1,
+    filter?: SearchFilter
+  ): Promise<SearchResult[]> {
+    this.ensureLoaded();
+
+    const candidatePool = Math.max(topK * 5, 50);
+    const [semantic, lexical] = await Promise.all([
+      this.search(queryEmbedding, candidatePool, minScore, filter),
+      this.searchLexical(query, candidatePool, filter),
+    ]);
+
+    const maxFused = 2 / (RRF_K + 1);
+    const fused = new Map<string, SearchResult>();
+    const addRanking = (ranking: SearchResult[]) => {
+      ranking.forEach((result, rank) => {
+        const existing = fused.get(result.chunk.id) || { chunk: result.chunk, score: 0 };
+        existing.score += 1 / (RRF_K + rank + 1) / maxFused;
+        existing.semanticScore ??= result.semanticScore;
+        existing.lexicalScore ??= result.lexicalScore;
+        fused.set(result.chunk.id, existing);
+      });
+    };
+    addRanking(semantic);
+    addRanking(lexical);
+
+    return Array.from(fused.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  getChunk(id: string, version?: string): SearchChunk | undefined {
+    const { chunks, chunkPositions } = this.getCollection(version);
+    const position = chunkPositions.get(id);
+    return position === undefined ? undefined : chunks[position];
+  }
+
+  /**
+   * Returns a chunk with up to `before`/`after` neighbouring chunks
+   * (previous/next section or part) from the same page.
+   */
+  getChunkContext(id: string, before: number = 1, after: number = 1, version?: string): ChunkContext | undefined {
+    const { chunks, chunkPositions, pagePositions } = this.getCollection(version);
+    const chunk = this.getChunk(id, version);
+    if (!chunk) return undefined;
+
+    const positions = pagePositions.get(chunk.href) || [];
+    const index = positions.indexOf(chunkPositions.get(id)!);
+    return {
+      chunk,
+      previous: positions.slice(Math.max(0, index - before), index).map(position => chunks[position]),
+      next: positions.slice(index + 1, index + 1 + after).map(position => chunks[position]),
+    };
+  }
+
+  /**
+   * Resolves a page by href ("Propagate.html" or "Propagate") or by its
+   * name in pages.json (case-insensitive).
+   */
+  resolvePageHref(page: string, version?: string): string | undefined {
+    const { chunks, pagePositions } = this.getCollection(version);
+    const trimmed = page.trim().replace(/#.*$/, '');
+    const candidates = [trimmed, `${trimmed}.html`];
+    for (const candidate of candidates) {
+      if (pagePositions.has(candidate)) return candidate;
+    }
+
+    const lower = trimmed.toLowerCase();
+    const byHref = Array.from(pagePositions.keys()).find(href =>
+      href.toLowerCase() === lower || href.toLowerCase() === `${lower}.html`
+    );
+    if (byHref) return byHref;
+
+    const byName = PAGES.find(p => p.name.toLowerCase() === lower);
+    if (byName && pagePositions.has(byName.href)) return byName.href;
+
+    return chunks.find(chunk => chunk.pageName.toLowerCase() === lower)?.href;
+  }
+
+  getPageChunks(page: string, version?: string): PageChunks | undefined {
+    const { chunks, pagePositions } = this.getCollection(version);
+    const href = this.resolvePageHref(page, version);
+    if (!href) return undefined;
+
+    const pageChunks = pagePositions.get(href)!.map(position => chunks[position]);
+    return { href, pageName: pageChunks[0].pageName, chunks: pageChunks };
+  }
 
-    // Sort by score descending and take top K
-    results.sort((a, b) => b.score - a.score);
-    return results.slice(0, topK);
+  listPages(version?: string): Array<{ href: string; pageName: string; chunkCount: number }> {
+    const { chunks, pagePositions } = this.getCollection(version);
+    return Array.from(pagePositions, ([href, positions]) => ({
+      href,
+      pageName: chunks[positions[0]].pageName,
+      chunkCount: positions.length,
+    }));
   }
 
-  getStats(): { totalChunks: number; isLoaded: boolean } {
+  getStats(): {
+    totalChunks: number;
+    isLoaded: boolean;
+    embedding: EmbeddingProviderInfo;
+    defaultVersion?: string;
+    versions: string[];
+    // Versions whose semantic search goes through an HNSW index
+    indexedVersions: string[];
+  } {
+    const defaultCollection = this.collections.get(this.defaultVersion);
     return {
-      totalChunks: this.chunks.length,
-      isLoaded: this.isLoaded
+      totalChunks: Array.from(this.collections.values()).reduce((sum, collection) => sum + collection.chunks.length, 0),
+      isLoaded: this.isLoaded,
+      embedding: defaultCollection?.embeddingInfo || LEGACY_EMBEDDING_INFO,
+      defaultVersion: this.isLoaded ? this.defaultVersion : undefined,
+      versions: Array.from(this.collections.keys()),
+      indexedVersions: this.exact ? [] : Array.from(this.collections.values())
+        .filter(collection => collection.vectorIndex)
+        .map(collection => collection.version),
     };
   }
 }
\ No newline at end of file
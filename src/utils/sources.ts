@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { BASE_URL, PAGES } from './pages.js';
+import { fetchPage, PageValidators, ScrapedPage } from './scraper.js';
+import { isArchivePath, readArchive } from './archive.js';
+
+/**
+ * Where setup reads the documentation pages from.
+ */
+export interface DocSource {
+  readonly description: string;
+  // Remote sources get a delay between requests
+  readonly remote: boolean;
+  fetch(href: string, validators?: PageValidators): Promise<ScrapedPage>;
+  // Hrefs of every page in the source, for sources that can be listed
+  listPages?(): string[];
+}
+
+const HTML_FILE = /\.html?$/i;
+// Served for the empty href, like a web server does for the site root
+const INDEX_FILE = 'index.html';
+
+/**
+ * Pages fetched from BASE_URL over HTTP.
+ */
+export class HttpDocSource implements DocSource {
+  readonly description = BASE_URL;
+  readonly remote = true;
+
+  fetch(href: string, validators?: PageValidators): Promise<ScrapedPage> {
+    return fetchPage(href, validators);
+  }
+}
+
+/**
+ * Pages read from a directory of HTML files, e.g. the help folder of a GMAT
+ * installation. Hrefs are paths relative to the directory.
+ */
+export class DirectoryDocSource implements DocSource {
+  readonly description: string;
+  readonly remote = false;
+
+  constructor(private root: string) {
+    this.description = root;
+  }
+
+  async fetch(href: string): Promise<ScrapedPage> {
+    const filePath = path.resolve(this.root, href || INDEX_FILE);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep) || !fs.existsSync(filePath)) {
+      throw new Error(`${href} not found in ${this.root}`);
+    }
+    return { href, html: fs.readFileSync(filePath, 'utf8') };
+  }
+
+  listPages(): string[] {
+    const hrefs: string[] = [];
+    const walk = (dir: string, prefix: string) => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+          walk(path.join(dir, entry.name), `${prefix}${entry.name}/`);
+        } else if (HTML_FILE.test(entry.name)) {
+          hrefs.push(prefix + entry.name);
+        }
+      }
+    };
+    walk(this.root, '');
+    return hrefs.sort();
+  }
+}
+
+/**
+ * The directory inside an archive that holds the pages: the one where most
+ * listed pages are found, else the one with the most HTML files. Archives
+ * often wrap everything in a top-level folder.
+ */
+function findArchiveRoot(files: Map<string, Buffer>): string {
+  const htmlCounts = new Map<string, number>();
+  for (const name of files.keys()) {
+    if (!HTML_FILE.test(name)) continue;
+    const dir = name.includes('/') ? name.slice(0, name.lastIndexOf('/') + 1) : '';
+    htmlCounts.set(dir, (htmlCounts.get(dir) || 0) + 1);
+  }
+
+  let best = '';
+  let bestScore = [-1, -1];
+  for (const [dir, htmlCount] of htmlCounts) {
+    const listedCount = PAGES.filter(page => files.has(dir + page.href)).length;
+    if (listedCount > bestScore[0] || (listedCount === bestScore[0] && htmlCount > bestScore[1])) {
+      best = dir;
+      bestScore = [listedCount, htmlCount];
+    }
+  }
+  return best;
+}
+
+/**
+ * Pages read from a .zip, .tar or .tar.gz of the help files. The archive is
+ * loaded into memory once.
+ */
+export class ArchiveDocSource implements DocSource {
+  readonly description: string;
+  readonly remote = false;
+  private files: Map<string, Buffer>;
+  private root: string;
+
+  constructor(filePath: string) {
+    this.files = readArchive(filePath);
+    this.root = findArchiveRoot(this.files);
+    this.description = this.root ? `${filePath} (${this.root})` : filePath;
+  }
+
+  async fetch(href: string): Promise<ScrapedPage> {
+    const data = this.files.get(this.root + (href || INDEX_FILE));
+    if (!data) {
+      throw new Error(`${href} not found in ${this.description}`);
+    }
+    return { href, html: data.toString('utf8') };
+  }
+
+  listPages(): string[] {
+    return Array.from(this.files.keys())
+      .filter(name => name.startsWith(this.root) && HTML_FILE.test(name))
+      .map(name => name.slice(this.root.length))
+      .sort();
+  }
+}
+
+/**
+ * Creates the source for a location: a directory, an archive, or a file://
+ * URL of either. Without one, DOCS_SOURCE is used, and then BASE_URL.
+ */
+export function createDocSource(location = process.env.DOCS_SOURCE): DocSource {
+  if (!location) {
+    return BASE_URL.startsWith('file:') ? createDocSource(BASE_URL) : new HttpDocSource();
+  }
+
+  const filePath = location.startsWith('file:') ? fileURLToPath(location) : path.resolve(location);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Documentation source ${filePath} does not exist`);
+  }
+  if (fs.statSync(filePath).isDirectory()) {
+    return new DirectoryDocSource(filePath);
+  }
+  if (isArchivePath(filePath)) {
+    return new ArchiveDocSource(filePath);
+  }
+  throw new Error(`Unsupported documentation source ${filePath}: expected a directory, .zip, .tar or .tar.gz`);
+}
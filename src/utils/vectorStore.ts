@@ -0,0 +1,306 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Chunk } from './parser.js';
+import { EmbeddingProviderInfo } from './embeddingProvider.js';
+import { HnswIndex, HnswOptions } from './hnsw.js';
+
+export type Vector = number[] | Float32Array;
+
+export type VectorQuantization = 'float32' | 'int8';
+
+// Approximate nearest-neighbour index stored with the vectors; 'none' searches exactly
+export type VectorIndexType = 'hnsw' | 'none';
+
+export interface VectorIndexManifest extends HnswOptions {
+  type: 'hnsw';
+  file: string;
+}
+
+export interface StoredChunk extends Chunk {
+  embedding: Vector;
+}
+
+export interface PageRecord {
+  contentHash: string;
+  etag?: string;
+  lastModified?: string;
+  indexedAt: string;
+}
+
+export interface StoreManifest {
+  timestamp: string;
+  version: string;
+  embedding?: EmbeddingProviderInfo;
+  totalChunks: number;
+  dimensions: number;
+  quantization: VectorQuantization;
+  chunksFile: string;
+  vectorsFile: string;
+  parserVersion?: number;
+  pages?: Record<string, PageRecord>;
+  // Base URL the pages were published under, for links in results
+  baseUrl?: string;
+  index?: VectorIndexManifest;
+}
+
+export interface StoredCache {
+  timestamp: string;
+  version: string;
+  embedding?: EmbeddingProviderInfo;
+  quantization?: VectorQuantization;
+  parserVersion?: number;
+  pages?: Record<string, PageRecord>;
+  baseUrl?: string;
+  chunks: StoredChunk[];
+  // Graph over the chunk vectors, in chunk order
+  index?: HnswIndex;
+}
+
+export const STORE_VERSION = '2.0';
+export const MANIFEST_FILENAME = 'store.json';
+export const CHUNKS_FILENAME = 'chunks.jsonl';
+export const VECTORS_FILENAME = 'vectors.bin';
+export const HNSW_INDEX_FILENAME = 'hnsw.bin';
+export const LEGACY_CACHE_FILENAME = 'embeddings.json';
+
+/*
+ * On-disk layout
+ *
+ *   store.json         manifest naming the data files below
+ *   chunks-<id>.jsonl  one chunk per line, everything except the embedding, in vector order
+ *   vectors-<id>.bin   float32: totalChunks * dimensions little-endian floats
+ *                      int8:    totalChunks float32 scales, then totalChunks * dimensions
+ *                               int8 values (value = int8 * scale)
+ *   hnsw-<id>.bin      optional HNSW graph over the normalized vectors (see hnsw.ts)
+ *
+ * Every write uses a new <id>, so the data files of the live store are never
+ * overwritten: the new files are written beside them and take over when
+ * store.json is replaced, and only then are the old ones deleted. Stores
+ * written before ids were used name the files without one.
+ */
+
+function writeFileAtomic(filePath: string, data: string | Uint8Array): void {
+  const tempPath = filePath + '.tmp';
+  fs.writeFileSync(tempPath, data);
+  fs.renameSync(tempPath, filePath);
+}
+
+function getDataFileName(name: string, generation: string): string {
+  const extension = path.extname(name);
+  return `${path.basename(name, extension)}-${generation}${extension}`;
+}
+
+// Data files and their temporary files left by earlier writes, with or without an id
+function isDataFile(file: string): boolean {
+  return [CHUNKS_FILENAME, VECTORS_FILENAME, HNSW_INDEX_FILENAME].some(name => {
+    const extension = path.extname(name);
+    const base = path.basename(name, extension);
+    return new RegExp(`^${base}(-[0-9a-f]+)?\\${extension}(\\.tmp)?$`).test(file);
+  });
+}
+
+function encodeVectors(chunks: StoredChunk[], dimensions: number, quantization: VectorQuantization): Buffer {
+  const count = chunks.length;
+
+  if (quantization === 'float32') {
+    const values = new Float32Array(count * dimensions);
+    chunks.forEach((chunk, i) => values.set(chunk.embedding, i * dimensions));
+    return Buffer.from(values.buffer, values.byteOffset, values.byteLength);
+  }
+
+  const buffer = Buffer.alloc(count * 4 + count * dimensions);
+  const scales = new Float32Array(buffer.buffer, buffer.byteOffset, count);
+  const values = new Int8Array(buffer.buffer, buffer.byteOffset + count * 4, count * dimensions);
+
+  chunks.forEach((chunk, i) => {
+    let maxAbs = 0;
+    for (let d = 0; d < dimensions; d++) {
+      maxAbs = Math.max(maxAbs, Math.abs(chunk.embedding[d]));
+    }
+    const scale = maxAbs === 0 ? 1 : maxAbs / 127;
+    scales[i] = scale;
+    for (let d = 0; d < dimensions; d++) {
+      values[i * dimensions + d] = Math.round(chunk.embedding[d] / scale);
+    }
+  });
+
+  return buffer;
+}
+
+function decodeVectors(buffer: Buffer, manifest: StoreManifest): Float32Array {
+  const { totalChunks: count, dimensions, quantization } = manifest;
+  const expectedBytes = quantization === 'float32'
+    ? count * dimensions * 4
+    : count * 4 + count * dimensions;
+
+  if (buffer.byteLength !== expectedBytes) {
+    throw new Error(`Invalid vector file: expected ${expectedBytes} bytes, found ${buffer.byteLength}`);
+  }
+
+  // Typed array views need 4-byte alignment; small Buffers can live at any offset in Node's pool
+  const aligned = buffer.byteOffset % 4 === 0 ? buffer : Buffer.from(buffer);
+
+  if (quantization === 'float32') {
+    return new Float32Array(aligned.buffer, aligned.byteOffset, count * dimensions);
+  }
+
+  const scales = new Float32Array(aligned.buffer, aligned.byteOffset, count);
+  const values = new Int8Array(aligned.buffer, aligned.byteOffset + count * 4, count * dimensions);
+  const vectors = new Float32Array(count * dimensions);
+  for (let i = 0; i < count; i++) {
+    const scale = scales[i];
+    for (let d = 0; d < dimensions; d++) {
+      vectors[i * dimensions + d] = values[i * dimensions + d] * scale;
+    }
+  }
+  return vectors;
+}
+
+export function writeVectorStore(
+  dir: string,
+  chunks: StoredChunk[],
+  options: {
+    embedding?: EmbeddingProviderInfo;
+    quantization?: VectorQuantization;
+    timestamp?: string;
+    parserVersion?: number;
+    pages?: Record<string, PageRecord>;
+    baseUrl?: string;
+    index?: HnswIndex;
+  } = {}
+): StoreManifest {
+  const dimensions = chunks[0]?.embedding.length ?? 0;
+  for (const chunk of chunks) {
+    if (chunk.embedding.length !== dimensions) {
+      throw new Error(`Chunk ${chunk.id} has ${chunk.embedding.length} dimensions, expected ${dimensions}`);
+    }
+  }
+
+  const generation = crypto.randomBytes(4).toString('hex');
+  const manifest: StoreManifest = {
+    timestamp: options.timestamp || new Date().toISOString(),
+    version: STORE_VERSION,
+    embedding: options.embedding,
+    totalChunks: chunks.length,
+    dimensions,
+    quantization: options.quantization || 'float32',
+    chunksFile: getDataFileName(CHUNKS_FILENAME, generation),
+    vectorsFile: getDataFileName(VECTORS_FILENAME, generation),
+    parserVersion: options.parserVersion,
+    pages: options.pages,
+    baseUrl: options.baseUrl,
+    ...(options.index
+      ? { index: { type: 'hnsw', file: getDataFileName(HNSW_INDEX_FILENAME, generation), ...options.index.options } }
+      : {}),
+  };
+
+  fs.mkdirSync(dir, { recursive: true });
+
+  const chunkLines = chunks.map(({ embedding, ...metadata }) => JSON.stringify(metadata));
+  writeFileAtomic(path.join(dir, manifest.chunksFile), chunkLines.join('\n') + '\n');
+  writeFileAtomic(path.join(dir, manifest.vectorsFile), encodeVectors(chunks, dimensions, manifest.quantization));
+  if (manifest.index && options.index) {
+    writeFileAtomic(path.join(dir, manifest.index.file), options.index.serialize());
+  }
+  writeFileAtomic(path.join(dir, MANIFEST_FILENAME), JSON.stringify(manifest, null, 2));
+
+  // The previous store's files, and any left by an interrupted write
+  const current = new Set([manifest.chunksFile, manifest.vectorsFile, manifest.index?.file]);
+  for (const file of fs.readdirSync(dir)) {
+    if (isDataFile(file) && !current.has(file)) {
+      fs.rmSync(path.join(dir, file), { force: true });
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Builds the in-memory store from raw file contents. Chunk embeddings are
+ * views into a single Float32Array, so callers that map the vector file
+ * into memory themselves can pass that buffer directly.
+ */
+export function decodeVectorStore(manifest: StoreManifest, chunksText: string, vectorsBuffer: Buffer): StoredCache {
+  const vectors = decodeVectors(vectorsBuffer, manifest);
+  const lines = chunksText.split('\n').filter(line => line.trim().length > 0);
+
+  if (lines.length !== manifest.totalChunks) {
+    throw new Error(`Invalid chunk file: expected ${manifest.totalChunks} chunks, found ${lines.length}`);
+  }
+
+  const { dimensions } = manifest;
+  const chunks = lines.map((line, i) => ({
+    ...(JSON.parse(line) as Chunk),
+    embedding: vectors.subarray(i * dimensions, (i + 1) * dimensions),
+  }));
+
+  return {
+    timestamp: manifest.timestamp,
+    version: manifest.version,
+    embedding: manifest.embedding,
+    quantization: manifest.quantization,
+    parserVersion: manifest.parserVersion,
+    pages: manifest.pages,
+    baseUrl: manifest.baseUrl,
+    chunks,
+  };
+}
+
+export function readStoreManifest(dir: string): StoreManifest | null {
+  const manifestPath = path.join(dir, MANIFEST_FILENAME);
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as StoreManifest;
+}
+
+export function readVectorStore(dir: string): StoredCache | null {
+  const manifest = readStoreManifest(dir);
+  if (!manifest) {
+    return null;
+  }
+
+  const chunksText = fs.readFileSync(path.join(dir, manifest.chunksFile), 'utf8');
+  const vectorsBuffer = fs.readFileSync(path.join(dir, manifest.vectorsFile));
+  const store = decodeVectorStore(manifest, chunksText, vectorsBuffer);
+  const index = manifest.index ? readVectorIndex(dir, manifest) : null;
+  return index ? { ...store, index } : store;
+}
+
+/**
+ * The store's HNSW index, or null when it is missing or does not match the
+ * vectors; search then falls back to an exact scan.
+ */
+function readVectorIndex(dir: string, manifest: StoreManifest): HnswIndex | null {
+  const indexPath = path.join(dir, manifest.index!.file);
+  try {
+    const index = HnswIndex.deserialize(fs.readFileSync(indexPath));
+    if (index.count !== manifest.totalChunks || index.dimensions !== manifest.dimensions) {
+      throw new Error(`it covers ${index.count} vectors of ${index.dimensions} dimensions, ` +
+        `the store has ${manifest.totalChunks} of ${manifest.dimensions}`);
+    }
+    return index;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Ignoring vector index ${indexPath} (${errorMessage}); using exact search`);
+    return null;
+  }
+}
+
+export function readLegacyCache(dir: string): StoredCache | null {
+  const legacyPath = path.join(dir, LEGACY_CACHE_FILENAME);
+  if (!fs.existsSync(legacyPath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(legacyPath, 'utf8')) as StoredCache;
+}
+
+export function getStoreFiles(dir: string): string[] {
+  const manifest = readStoreManifest(dir);
+  if (!manifest) {
+    return [];
+  }
+  return [MANIFEST_FILENAME, manifest.chunksFile, manifest.vectorsFile, ...(manifest.index ? [manifest.index.file] : [])]
+    .map(file => path.join(dir, file));
+}
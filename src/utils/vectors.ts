@@ -0,0 +1,127 @@
+import { Vector } from './vectorStore.js';
+
+/**
+ * Dot product of `query` and the vector starting at `offset` in `vectors`.
+ * On unit vectors this is their cosine similarity.
+ */
+export function dotProduct(query: Vector, vectors: Vector, offset: number = 0): number {
+  let sum = 0;
+  for (let d = 0; d < query.length; d++) {
+    sum += query[d] * vectors[offset + d];
+  }
+  return sum;
+}
+
+/**
+ * Scales every `dimensions`-long vector in `vectors` to unit length, in
+ * place. Zero vectors stay zero.
+ */
+export function normalizeVectors(vectors: Float32Array, dimensions: number): Float32Array {
+  for (let offset = 0; offset < vectors.length; offset += dimensions) {
+    let norm = 0;
+    for (let d = 0; d < dimensions; d++) {
+      norm += vectors[offset + d] * vectors[offset + d];
+    }
+    if (norm === 0) continue;
+    const scale = 1 / Math.sqrt(norm);
+    for (let d = 0; d < dimensions; d++) {
+      vectors[offset + d] *= scale;
+    }
+  }
+  return vectors;
+}
+
+export function normalizeVector(vector: Vector): Float32Array {
+  return normalizeVectors(Float32Array.from(vector), vector.length);
+}
+
+/**
+ * Binary heap ordered so that `before(a, b)` puts `a` nearer the top.
+ */
+export class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private before: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const { items } = this;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const { items } = this;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && this.before(items[left], items[next])) next = left;
+        if (right < items.length && this.before(items[right], items[next])) next = right;
+        if (next === i) break;
+        [items[i], items[next]] = [items[next], items[i]];
+        i = next;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return this.items.slice();
+  }
+}
+
+/**
+ * Keeps the `k` highest-scoring items seen, in O(n log k) rather than
+ * sorting everything. Ties keep the item seen first.
+ */
+export class TopK<T> {
+  // Min-heap: the weakest kept item is on top, ready to be replaced
+  private heap = new Heap<{ item: T; score: number; seq: number }>(
+    (a, b) => a.score < b.score || (a.score === b.score && a.seq > b.seq)
+  );
+  private seen = 0;
+
+  constructor(private k: number) {}
+
+  push(item: T, score: number): void {
+    const seq = this.seen++;
+    if (this.k <= 0) return;
+    if (this.heap.size < this.k) {
+      this.heap.push({ item, score, seq });
+    } else if (score > this.heap.peek()!.score) {
+      this.heap.pop();
+      this.heap.push({ item, score, seq });
+    }
+  }
+
+  // Lowest kept score, or -Infinity while fewer than k items are kept
+  get threshold(): number {
+    return this.heap.size < this.k ? -Infinity : this.heap.peek()!.score;
+  }
+
+  // Kept items, best first
+  results(): Array<{ item: T; score: number }> {
+    return this.heap.toArray()
+      .sort((a, b) => b.score - a.score || a.seq - b.seq)
+      .map(({ item, score }) => ({ item, score }));
+  }
+}
@@ -0,0 +1,195 @@
+import { PageChunks, SearchEngine } from './search.js';
+import { mergeChunkParts } from './documents.js';
+import { getTableHeader, splitMarkdownBlocks, splitTableRow } from './markdown.js';
+import { isFieldTableHeader } from './reference.js';
+import { formatHeadingPath } from './parser.js';
+
+export type PageChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SectionDiff {
+  // Id of the section the parts were split from, the same in both versions
+  id: string;
+  title: string;
+  change: Exclude<PageChange, 'unchanged'>;
+  // Lines only in the old or only in the new text of a changed section
+  removedLines?: string[];
+  addedLines?: string[];
+  content?: string;
+}
+
+export interface FieldChanges {
+  added: string[];
+  removed: string[];
+  // Fields whose table row differs, e.g. a new default value or allowed value
+  changed: string[];
+}
+
+export interface PageDiff {
+  href: string;
+  pageName: string;
+  change: PageChange;
+  // Sections that differ, in the order of the newer page, removed ones last
+  sections: SectionDiff[];
+  unchangedSections: number;
+  fields: FieldChanges;
+}
+
+// Beyond this many lines per side an LCS table gets too large; fall back to set differences
+const MAX_LCS_LINES = 2000;
+
+interface Section {
+  id: string;
+  title: string;
+  content: string;
+}
+
+function getSections(page: PageChunks | undefined): Map<string, Section> {
+  const sections = new Map<string, Section>();
+  if (!page) return sections;
+
+  const firstChunks = new Map(page.chunks.map(chunk => [chunk.id, chunk]));
+  for (const section of mergeChunkParts(page.chunks)) {
+    const chunk = firstChunks.get(section.chunkIds[0])!;
+    const title = formatHeadingPath(chunk.headingPath || [chunk.pageName, ...(chunk.heading ? [chunk.heading] : [])]);
+    sections.set(section.id, { id: section.id, title, content: section.content });
+  }
+  return sections;
+}
+
+function getLines(text: string): string[] {
+  return text.split('\n').map(line => line.trimEnd()).filter(line => line.trim().length > 0);
+}
+
+/**
+ * Lines only in `before` and lines only in `after`, by longest common
+ * subsequence so that moved context does not show up as changes.
+ */
+export function diffLines(before: string[], after: string[]): { removed: string[]; added: string[] } {
+  if (before.length > MAX_LCS_LINES || after.length > MAX_LCS_LINES) {
+    const beforeSet = new Set(before);
+    const afterSet = new Set(after);
+    return { removed: before.filter(line => !afterSet.has(line)), added: after.filter(line => !beforeSet.has(line)) };
+  }
+
+  // lengths[i][j]: LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () => new Uint32Array(after.length + 1));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const removed: string[] = [];
+  const added: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      removed.push(before[i++]);
+    } else {
+      added.push(after[j++]);
+    }
+  }
+  removed.push(...before.slice(i));
+  added.push(...after.slice(j));
+  return { removed, added };
+}
+
+/**
+ * Rows of the field and option tables on a page, keyed by field name. The
+ * first row of a name wins when it appears in several tables.
+ */
+function getFieldRows(sections: Map<string, Section>): Map<string, string> {
+  const rows = new Map<string, string>();
+  for (const section of sections.values()) {
+    for (const block of splitMarkdownBlocks(section.content)) {
+      if (block.kind !== 'table') continue;
+      const header = getTableHeader(block.text);
+      if (!header) continue;
+      const [first = '', second = ''] = splitTableRow(header.split('\n')[0]);
+      if (!isFieldTableHeader(first, second)) continue;
+
+      for (const row of block.text.split('\n').slice(2)) {
+        const cells = splitTableRow(row);
+        const name = cells[0]?.replace(/[*_`]/g, '').trim();
+        if (name && !rows.has(name)) {
+          rows.set(name, cells.slice(1).join(' | ').replace(/\s+/g, ' '));
+        }
+      }
+    }
+  }
+  return rows;
+}
+
+function diffFields(before: Map<string, string>, after: Map<string, string>): FieldChanges {
+  return {
+    added: Array.from(after.keys()).filter(name => !before.has(name)),
+    removed: Array.from(before.keys()).filter(name => !after.has(name)),
+    changed: Array.from(after.keys()).filter(name => before.has(name) && before.get(name) !== after.get(name)),
+  };
+}
+
+/**
+ * Aligns the sections of two versions of a page by their chunk ids, which
+ * come from the page href and section heading, and reports what was added,
+ * removed or changed. Pass undefined for a version that lacks the page.
+ */
+export function diffPage(from: PageChunks | undefined, to: PageChunks | undefined): PageDiff {
+  const page = (to || from)!;
+  const before = getSections(from);
+  const after = getSections(to);
+  const sections: SectionDiff[] = [];
+  let unchangedSections = 0;
+
+  for (const section of after.values()) {
+    const old = before.get(section.id);
+    if (!old) {
+      sections.push({ id: section.id, title: section.title, change: 'added', content: section.content });
+      continue;
+    }
+    const { removed, added } = diffLines(getLines(old.content), getLines(section.content));
+    if (removed.length === 0 && added.length === 0) {
+      unchangedSections++;
+    } else {
+      sections.push({ id: section.id, title: section.title, change: 'changed', removedLines: removed, addedLines: added });
+    }
+  }
+  for (const section of before.values()) {
+    if (!after.has(section.id)) {
+      sections.push({ id: section.id, title: section.title, change: 'removed', content: section.content });
+    }
+  }
+
+  return {
+    href: page.href,
+    pageName: page.pageName,
+    change: !from ? 'added' : !to ? 'removed' : sections.length > 0 ? 'changed' : 'unchanged',
+    sections,
+    unchangedSections,
+    fields: diffFields(getFieldRows(before), getFieldRows(after)),
+  };
+}
+
+/**
+ * Diffs every page of a category that exists in either version. Pages are
+ * returned in the order of the newer version, pages it dropped last.
+ */
+export function diffCategory(searchEngine: SearchEngine, category: string, from: string, to: string): PageDiff[] {
+  const inCategory = (version: string) => searchEngine.listPages(version)
+    .map(page => searchEngine.getPageChunks(page.href, version)!)
+    .filter(page => page.chunks[0]?.category === category);
+
+  const before = new Map(inCategory(from).map(page => [page.href, page]));
+  const after = inCategory(to);
+  const afterHrefs = new Set(after.map(page => page.href));
+
+  return [
+    ...after.map(page => diffPage(before.get(page.href), page)),
+    ...Array.from(before.values()).filter(page => !afterHrefs.has(page.href)).map(page => diffPage(page, undefined)),
+  ];
+}
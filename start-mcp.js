@@ -9,9 +9,17 @@ import { dirname, join } from 'path';
 const __dirname = dirname(fileURLToPath(import.meta.url));
 config({ path: join(__dirname, '.env.local') });
 
-// Ensure critical environment variables are set
-if (!process.env.OPENAI_API_KEY) {
-  console.error('Error: OPENAI_API_KEY not found in .env.local');
+// Ensure critical environment variables are set, read the way the server reads them
+const { getEmbeddingProviderConfig } = await import('./dist/utils/embeddingProvider.js');
+let embeddingConfig;
+try {
+  embeddingConfig = getEmbeddingProviderConfig();
+} catch (error) {
+  console.error(`Error: ${error.message}`);
+  process.exit(1);
+}
+if (embeddingConfig.provider === 'openai' && !embeddingConfig.apiKey) {
+  console.error('Error: OPENAI_API_KEY not found in .env.local (or set EMBEDDING_PROVIDER=local)');
   process.exit(1);
 }
 